@@ -0,0 +1,106 @@
+/**
+ * GTFS Realtime decoder check
+ *
+ * Decodes the vehicle positions fixture through gtfsRealtimeDecoder (loaded
+ * with Vite, so the app's TypeScript runs as is) and compares the result with
+ * the vehicles the fixture holds. Fails with an assertion error on a mismatch.
+ *
+ * Usage:
+ *   npm run check:realtime
+ *
+ * The fixture has the layout of the Malaysia Open API vehicle position feed: a
+ * vehicle with every field the map reads, one with only an ID and a position,
+ * and two the decoder must drop (no position, and coordinates of 0, 0).
+ * To check against a live capture instead, save one over the fixture:
+ *   curl -o scripts/fixtures/vehicle-position.pb \
+ *     "https://api.data.gov.my/gtfs-realtime/vehicle-position/prasarana?category=rapid-bus-kl"
+ * and update the expected vehicles below.
+ */
+
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { createServer } from 'vite';
+
+const FIXTURE = new URL('./fixtures/vehicle-position.pb', import.meta.url);
+
+const EXPECTED_FEED_TIMESTAMP = 1760000005;
+const EXPECTED_ENTITY_COUNT = 4;
+
+const EXPECTED_VEHICLES = [
+  {
+    id: 'WMD1234',
+    label: 'U8100',
+    licensePlate: 'WMD1234',
+    tripId: 'weekday_U8100_0_12',
+    routeId: 'U81',
+    directionId: 0,
+    startTime: '07:30:00',
+    latitude: 3.1478,
+    longitude: 101.6953,
+    bearing: 90,
+    speed: 8.5,
+    timestamp: 1760000001,
+    currentStopSequence: 5,
+    stopId: '1000538',
+    currentStatus: 'IN_TRANSIT_TO',
+    occupancyStatus: 'MANY_SEATS_AVAILABLE',
+    congestionLevel: null,
+  },
+  {
+    id: 'VAB5678',
+    label: null,
+    licensePlate: null,
+    tripId: null,
+    routeId: null,
+    directionId: null,
+    startTime: null,
+    latitude: 3.0733,
+    longitude: 101.5185,
+    bearing: 0,
+    speed: 0,
+    timestamp: 1760000002,
+    currentStopSequence: null,
+    stopId: null,
+    currentStatus: null,
+    occupancyStatus: null,
+    congestionLevel: null,
+  },
+];
+
+// Positions are 32-bit floats on the wire
+const COORDINATE_TOLERANCE = 1e-5;
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true },
+  optimizeDeps: { noDiscovery: true }, // Nothing runs in a browser
+  // The protobuf bindings are CommonJS; pre-bundled, their named exports import as in the app
+  ssr: { noExternal: ['gtfs-realtime-bindings'], optimizeDeps: { include: ['gtfs-realtime-bindings'] } },
+});
+try {
+  const { decodeRealtimeFeed } = await server.ssrLoadModule('/src/services/gtfsRealtimeDecoder.ts');
+  const decoded = decodeRealtimeFeed('vehicle-position', await readFile(FIXTURE));
+
+  assert.equal(decoded.feedTimestamp, EXPECTED_FEED_TIMESTAMP);
+  assert.equal(decoded.entityCount, EXPECTED_ENTITY_COUNT);
+  assert.equal(decoded.data.length, EXPECTED_VEHICLES.length);
+
+  decoded.data.forEach((vehicle, index) => {
+    const expected = EXPECTED_VEHICLES[index];
+    for (const field of ['latitude', 'longitude', 'speed']) {
+      assert.ok(
+        Math.abs(vehicle[field] - expected[field]) < COORDINATE_TOLERANCE,
+        `${expected.id} ${field}: expected ${expected[field]}, got ${vehicle[field]}`
+      );
+    }
+    assert.deepEqual(
+      { ...vehicle, latitude: expected.latitude, longitude: expected.longitude, speed: expected.speed },
+      expected
+    );
+  });
+
+  console.log(`Decoded ${decoded.data.length} of ${decoded.entityCount} entities in ${FIXTURE.pathname} as expected`);
+} finally {
+  await server.close();
+}
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+
+import { getTranslatedText } from '../services/gtfsRealtime';
+import type { ServiceAlert, AlertEffect } from '../services/gtfsRealtime';
+
+interface AlertBannerProps {
+  alerts: ServiceAlert[];
+  onDismiss: (alertId: string) => void;
+  isMobile: boolean;
+}
+
+// Maximum number of alerts shown before collapsing into "+N more"
+const MAX_VISIBLE_ALERTS = 3;
+
+// Human-readable labels for the most common alert effects
+const EFFECT_LABELS: Partial<Record<AlertEffect, string>> = {
+  NO_SERVICE: 'No service',
+  REDUCED_SERVICE: 'Reduced service',
+  SIGNIFICANT_DELAYS: 'Delays',
+  DETOUR: 'Detour',
+  ADDITIONAL_SERVICE: 'Additional service',
+  MODIFIED_SERVICE: 'Modified service',
+  STOP_MOVED: 'Stop moved',
+  NO_EFFECT: 'Information',
+  ACCESSIBILITY_ISSUE: 'Accessibility',
+};
+
+/**
+ * Returns the badge color for an alert effect
+ */
+function getEffectColor(effect: AlertEffect): string {
+  switch (effect) {
+    case 'NO_SERVICE':
+      return '#dc3545'; // Red for closures
+    case 'SIGNIFICANT_DELAYS':
+    case 'DETOUR':
+    case 'REDUCED_SERVICE':
+    case 'STOP_MOVED':
+      return '#fd7e14'; // Orange for disruptions
+    default:
+      return '#0d6efd'; // Blue for informational alerts
+  }
+}
+
+/**
+ * Dismissible banner listing active GTFS Realtime service alerts
+ */
+export default function AlertBanner({ alerts, onDismiss, isMobile }: AlertBannerProps) {
+  const [expanded, setExpanded] = useState<boolean>(false);
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  const visibleAlerts = expanded ? alerts : alerts.slice(0, MAX_VISIBLE_ALERTS);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: isMobile ? '120px' : '20px',
+      left: isMobile ? '10px' : '50%',
+      right: isMobile ? '10px' : 'auto',
+      transform: isMobile ? 'none' : 'translateX(-50%)',
+      width: isMobile ? 'auto' : '440px',
+      maxHeight: isMobile ? '40vh' : '50vh',
+      overflowY: 'auto',
+      zIndex: 1001,
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+    }}>
+      {visibleAlerts.map(alert => {
+        const header = getTranslatedText(alert.headerText);
+        const description = getTranslatedText(alert.descriptionText);
+        const url = getTranslatedText(alert.url);
+
+        return (
+          <div
+            key={alert.id}
+            role="alert"
+            style={{
+              background: 'white',
+              color: '#333',
+              borderLeft: `4px solid ${getEffectColor(alert.effect)}`,
+              borderRadius: '5px',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.3)',
+              padding: isMobile ? '10px 12px' : '10px 15px',
+              fontSize: isMobile ? '13px' : '14px',
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '10px' }}>
+              <div style={{ flex: 1 }}>
+                <span style={{
+                  display: 'inline-block',
+                  background: getEffectColor(alert.effect),
+                  color: 'white',
+                  borderRadius: '3px',
+                  padding: '1px 6px',
+                  fontSize: '11px',
+                  fontWeight: '600',
+                  marginRight: '6px',
+                }}>
+                  {EFFECT_LABELS[alert.effect] || 'Service alert'}
+                </span>
+                <strong>{header || 'Service alert'}</strong>
+              </div>
+              <button
+                onClick={() => onDismiss(alert.id)}
+                style={{
+                  background: '#f0f0f0',
+                  border: 'none',
+                  borderRadius: '4px',
+                  padding: isMobile ? '6px 10px' : '3px 8px',
+                  cursor: 'pointer',
+                  fontSize: '12px',
+                  touchAction: 'manipulation',
+                }}
+                aria-label="Dismiss alert"
+              >
+                ✕
+              </button>
+            </div>
+            {description && (
+              <div style={{ marginTop: '6px', color: '#666', fontSize: '12px', whiteSpace: 'pre-line' }}>
+                {description}
+              </div>
+            )}
+            {url && (
+              <a
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                style={{ display: 'inline-block', marginTop: '6px', fontSize: '12px' }}
+              >
+                More information
+              </a>
+            )}
+          </div>
+        );
+      })}
+      {alerts.length > MAX_VISIBLE_ALERTS && (
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          style={{
+            alignSelf: 'center',
+            background: 'white',
+            border: 'none',
+            borderRadius: '12px',
+            boxShadow: '0 2px 4px rgba(0,0,0,0.2)',
+            padding: '4px 12px',
+            cursor: 'pointer',
+            fontSize: '12px',
+            color: '#333',
+          }}
+        >
+          {expanded ? 'Show fewer alerts' : `+${alerts.length - MAX_VISIBLE_ALERTS} more alerts`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,52 +1,139 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import MapGL from 'react-map-gl/mapbox';
 import DeckGL from '@deck.gl/react';
 import { ScatterplotLayer, IconLayer, PathLayer } from '@deck.gl/layers';
 import { PathStyleExtension } from '@deck.gl/extensions';
+import { TripsLayer } from '@deck.gl/geo-layers';
 // import { ScenegraphLayer } from '@deck.gl/mesh-layers';
 import type { PickingInfo } from '@deck.gl/core';
 
-import { fetchMultipleAgencies } from '../services/gtfsRealtime';
-import { fetchMultipleAgencyStops, fetchMultipleAgencyRoutes, getStopColor as getStopColorFromService } from '../services/gtfsStatic';
+import {
+  fetchGTFSRealtime,
+  fetchServiceAlerts,
+  fetchTripUpdates,
+  mergeTripUpdates,
+  isAlertActive,
+  describeFetchError,
+} from '../services/gtfsRealtime';
+import type {
+  ServiceAlert,
+  TripUpdatesIndex,
+  VehicleStopStatus,
+  OccupancyStatus,
+  CongestionLevel,
+  RealtimeFetchResult,
+} from '../services/gtfsRealtime';
+import { createTripUpdatesIndex } from '../services/gtfsRealtimeDecoder';
+import { createPollingScheduler, getAgencyKey } from '../services/realtimePolling';
+import { updateVehicleTrack, getAnimatedPosition, isTrackAnimating } from '../services/vehicleAnimation';
+import type { VehicleTrack } from '../services/vehicleAnimation';
+import { buildRouteGeometry, matchToRoute } from '../services/mapMatching';
+import type { RouteGeometry, RouteMatch } from '../services/mapMatching';
+import {
+  loadAgencyStaticData,
+  fetchMultipleAgencyValidationReports,
+  getStopColor as getStopColorFromService,
+  getRouteColor,
+  getRouteDisplayName,
+  subscribeToGTFSFeedUpdates,
+  loadLocalGTFSFeed,
+  listLocalGTFSFeeds,
+  clearGTFSCache,
+  getFeedKey,
+} from '../services/gtfsStatic';
+import type { RouteInfo, LocationType, LocalFeed, AgencyStaticData } from '../services/gtfsStatic';
+import { createLoadPipeline } from '../services/loadPipeline';
+import type { LoadPipeline, LoadProgress, AgencyLoadProgress, LoadPhase } from '../services/loadPipeline';
+import { buildStopHierarchy, getWheelchairBoarding, collectServingRoutes } from '../services/stationHierarchy';
+import { isTripServiceActive } from '../services/serviceCalendar';
+import type { ServiceCalendar } from '../services/serviceCalendar';
+import { getServiceDate } from '../services/gtfsTime';
+import type { ValidationReport } from '../services/feedValidator';
+import { fetchScheduledDepartures, applyRealtimeToDepartures } from '../services/stopDepartures';
+import { createTimetable } from '../services/timetable';
+import type { Departure } from '../services/stopDepartures';
+import { fetchTripSchedule, buildTripTimeline } from '../services/tripTimeline';
+import type { TripTimeline, TripScheduleStop } from '../services/tripTimeline';
+import { measurePath, splitPathAtDistance } from '../services/geometry';
+import { createPointIndex, createSegmentIndex } from '../services/spatialIndex';
+import AlertBanner from './AlertBanner';
+import FeedReportPanel from './FeedReportPanel';
+import DepartureBoard from './DepartureBoard';
+import TripTimelineView from './TripTimelineView';
 
 import 'mapbox-gl/dist/mapbox-gl.css';
 
 // Type definitions
 interface Vehicle {
   id: string;
+  label: string | null;
+  licensePlate: string | null;
   tripId: string | null;
   routeId: string | null;
+  directionId: number | null;
+  startTime: string | null;
   latitude: number;
   longitude: number;
   bearing: number;
   speed: number;
   timestamp: number;
+  currentStopSequence: number | null;
+  stopId: string | null;
+  currentStatus: VehicleStopStatus | null;
+  occupancyStatus: OccupancyStatus | null;
+  congestionLevel: CongestionLevel | null;
+}
+
+interface FeedVehicle extends Vehicle {
+  feedKey: string; // Key of the feed that reported the vehicle, see getAgencyKey
 }
 
 interface Stop {
   id: string;
+  feedKey: string;
   name: string;
   latitude: number;
   longitude: number;
   code?: string;
   routeId?: string | null; // Route ID from stops.txt (for train stations)
+  locationType: LocationType;
+  parentStationId: string | null;
+  platformCode?: string;
+  wheelchairBoarding: boolean | null; // null when unknown
 }
 
 interface Route {
   id: string;
+  patternId: string;
   path: [number, number][];
   timestamps: number[];
   routeId: string | null;
+  serviceId: string | null;
+  feedKey: string;
+  stopIds: string[];
+  stopTimes: Array<{ arrival: number | null; departure: number | null }>;
+  shapeId: string | null;
 }
 
 interface BusPosition {
   id: string;
+  label: string | null;
+  licensePlate: string | null;
   longitude: number;
   latitude: number;
   bearing: number;
   speed: number;
   routeId: string | null;
+  feedKey: string;
   tripId: string | null;
+  directionId: number | null;
+  startTime: string | null;
+  timestamp: number;
+  currentStopSequence: number | null;
+  stopId: string | null;
+  currentStatus: VehicleStopStatus | null;
+  occupancyStatus: OccupancyStatus | null;
+  congestionLevel: CongestionLevel | null;
 }
 
 interface VehiclePosition {
@@ -57,6 +144,19 @@ interface VehiclePosition {
   speed: number;
 }
 
+interface VehicleTrail {
+  id: string;
+  routeId: string | null;
+  feedKey: string;
+  path: [number, number][];
+  timestamps: number[];
+}
+
+interface SelectedTripPath {
+  path: [number, number][];
+  color: [number, number, number, number];
+}
+
 interface Agency {
   agency: string;
   category?: string;
@@ -86,23 +186,191 @@ const INITIAL_VIEW_STATE: ViewState = {
   bearing: 0,
 };
 
-// Update interval in milliseconds (API updates every 30 seconds)
+// Feeds that can be shown, from the data.gov.my GTFS Static and Realtime APIs
+const AGENCY_OPTIONS: Array<Agency & { label: string }> = [
+  { agency: 'prasarana', category: 'rapid-bus-kl', label: 'Rapid Bus KL' },
+  { agency: 'prasarana', category: 'rapid-bus-mrtfeeder', label: 'MRT Feeder' },
+  { agency: 'prasarana', category: 'rapid-bus-kuantan', label: 'Rapid Kuantan' },
+  { agency: 'prasarana', category: 'rapid-bus-penang', label: 'Rapid Penang' },
+  { agency: 'mybas-kangar', label: 'BAS.MY Kangar' },
+  { agency: 'mybas-alor-setar', label: 'BAS.MY Alor Setar' },
+  { agency: 'mybas-kota-bharu', label: 'BAS.MY Kota Bharu' },
+  { agency: 'mybas-kuala-terengganu', label: 'BAS.MY Kuala Terengganu' },
+  { agency: 'mybas-ipoh', label: 'BAS.MY Ipoh' },
+  { agency: 'mybas-seremban-a', label: 'BAS.MY Seremban A' },
+  { agency: 'mybas-seremban-b', label: 'BAS.MY Seremban B' },
+  { agency: 'mybas-melaka', label: 'BAS.MY Melaka' },
+  { agency: 'mybas-johor', label: 'BAS.MY Johor Bahru' },
+  { agency: 'mybas-kuching', label: 'BAS.MY Kuching' },
+  { agency: 'ktmb', label: 'KTMB' },
+];
+
+// Feeds shown on first load
+const DEFAULT_AGENCIES: Agency[] = [
+  { agency: 'prasarana', category: 'rapid-bus-kl' },
+];
+
+const LOAD_PHASE_LABELS: Record<LoadPhase, string> = {
+  download: 'Downloading',
+  unzip: 'Unzipping',
+  parse: 'Parsing',
+  geometry: 'Building routes',
+  index: 'Indexing',
+};
+
+// Fallback update interval in milliseconds when the feed timestamp is unknown
+// (the scheduler otherwise polls right after each 30-second feed publish)
 const UPDATE_INTERVAL = 45000;
 
+// Service alerts change rarely, so they are polled less often than positions
+const ALERT_UPDATE_INTERVAL = 120000;
+
+// How often the countdowns and time windows of open stop and bus panels move on
+const PANEL_CLOCK_INTERVAL = 30000;
+
+// Tapping the map this close to a stop (in screen pixels) selects it
+const STOP_TAP_RADIUS_PIXELS = 24;
+
+// How far to look for the nearest stop and nearby routes of a bus that can't be matched to its trip (meters)
+const NEAREST_STOP_RADIUS = 1000;
+const NEARBY_ROUTE_RADIUS = 50;
+
+// Minimum time between animation frames (~30 fps keeps deck.gl layer rebuilds cheap)
+const ANIMATION_FRAME_INTERVAL = 1000 / 30;
+
+// How much vehicle position history to keep and draw as breadcrumb trails (seconds)
+const TRAIL_LENGTH_SECONDS = 15 * 60;
+
+// Trail timestamps are stored relative to page load to stay precise in 32-bit GPU floats
+const TRAIL_TIME_ORIGIN = Math.floor(Date.now() / 1000);
+
+// How often the trails' fade advances (ms); a second is invisible against a 15 minute trail
+const TRAIL_CLOCK_INTERVAL = 1000;
+
+// Occupancy badge labels and colors (GTFS Realtime OccupancyStatus)
+const OCCUPANCY_BADGES: Record<OccupancyStatus, { label: string; color: string } | null> = {
+  EMPTY: { label: 'Empty', color: '#28a745' },
+  MANY_SEATS_AVAILABLE: { label: 'Many seats', color: '#28a745' },
+  FEW_SEATS_AVAILABLE: { label: 'Few seats', color: '#ffc107' },
+  STANDING_ROOM_ONLY: { label: 'Standing room', color: '#fd7e14' },
+  CRUSHED_STANDING_ROOM_ONLY: { label: 'Very crowded', color: '#dc3545' },
+  FULL: { label: 'Full', color: '#dc3545' },
+  NOT_ACCEPTING_PASSENGERS: { label: 'Not boarding', color: '#6c757d' },
+  NO_DATA_AVAILABLE: null,
+  NOT_BOARDABLE: { label: 'Not boardable', color: '#6c757d' },
+};
+
+// Wording for the vehicle's relation to its current stop
+const STOP_STATUS_LABELS: Record<VehicleStopStatus, string> = {
+  INCOMING_AT: 'Arriving at',
+  STOPPED_AT: 'Stopped at',
+  IN_TRANSIT_TO: 'In transit to',
+};
+
+const CONGESTION_LABELS: Record<CongestionLevel, string | null> = {
+  UNKNOWN_CONGESTION_LEVEL: null,
+  RUNNING_SMOOTHLY: 'Running smoothly',
+  STOP_AND_GO: 'Stop and go',
+  CONGESTION: 'Congestion',
+  SEVERE_CONGESTION: 'Severe congestion',
+};
+
+/**
+ * Replaces the records of some feeds, keeping those of every other feed
+ */
+function replaceFeedRecords<T extends { feedKey: string }>(records: T[], feeds: Agency[], replacements: T[]): T[] {
+  const feedKeys = new Set(feeds.map(({ agency, category }) => getFeedKey(agency, category)));
+  return [...records.filter(record => !feedKeys.has(record.feedKey)), ...replacements];
+}
+
+/**
+ * Keeps the entries of the given agencies in a map keyed by getAgencyKey
+ */
+function keepAgencyEntries<T>(entries: Map<string, T>, agencyKeys: Set<string>): Map<string, T> {
+  const kept = new NativeMap([...entries].filter(([key]) => agencyKeys.has(key)));
+  return kept.size === entries.size ? entries : kept;
+}
+
+/**
+ * Escapes text for an HTML string, since feed data (including local ZIPs) is untrusted
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Name a feed is listed under
+ */
+function getFeedLabel(feed: Agency): string {
+  const option = AGENCY_OPTIONS.find(other => other.agency === feed.agency && other.category === feed.category);
+  return option?.label ?? (feed.category || feed.agency);
+}
+
+/**
+ * Describes how far a feed's load has got, e.g. "Downloading 2.1 / 8.4 MB"
+ */
+function describeLoadProgress({ status, phase, current, total, error }: AgencyLoadProgress): string {
+  if (status === 'loaded') {
+    return 'Ready';
+  }
+  if (status === 'failed') {
+    return error ? `Failed: ${error}` : 'Failed';
+  }
+  if (!phase) {
+    return 'Waiting';
+  }
+  if (phase === 'download') {
+    const megabytes = (bytes: number) => (bytes / 1e6).toFixed(1);
+    if (current === 0) {
+      return LOAD_PHASE_LABELS.download;
+    }
+    return total > 0
+      ? `${LOAD_PHASE_LABELS.download} ${megabytes(current)} / ${megabytes(total)} MB`
+      : `${LOAD_PHASE_LABELS.download} ${megabytes(current)} MB`;
+  }
+  return total > 0 ? `${LOAD_PHASE_LABELS[phase]} ${current} / ${total}` : LOAD_PHASE_LABELS[phase];
+}
+
 export default function BusMap() {
-  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
-  const [, setVehicleHistory] = useState<Map<string, VehiclePosition[]>>(new NativeMap());
+  const [vehiclesByAgency, setVehiclesByAgency] = useState<Map<string, Vehicle[]>>(new NativeMap());
+  const [vehicleHistory, setVehicleHistory] = useState<Map<string, VehiclePosition[]>>(new NativeMap());
+  const [vehicleTracks, setVehicleTracks] = useState<Map<string, VehicleTrack>>(new NativeMap());
+  const [animationTime, setAnimationTime] = useState<number>(() => performance.now());
+  // Wall-clock time of the trails relative to TRAIL_TIME_ORIGIN (seconds)
+  const [trailTime, setTrailTime] = useState<number>(() => Date.now() / 1000 - TRAIL_TIME_ORIGIN);
+  const [showTrails, setShowTrails] = useState<boolean>(true);
   const [stops, setStops] = useState<Stop[]>([]);
   const [routes, setRoutes] = useState<Route[]>([]);
+  // Route info by feed key, then route ID; agencies reuse route IDs such as "100"
+  const [routeInfoByFeed, setRouteInfoByFeed] = useState<Map<string, Map<string, RouteInfo>>>(new NativeMap());
+  const [serviceCalendars, setServiceCalendars] = useState<Map<string, ServiceCalendar>>(new NativeMap());
+  const [serviceDate, setServiceDate] = useState<string>(() => getServiceDate());
   const [selectedStop, setSelectedStop] = useState<Stop | null>(null);
   const [selectedBus, setSelectedBus] = useState<BusPosition | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [showSearchResults, setShowSearchResults] = useState<boolean>(false);
   const [loadingRealtime, setLoadingRealtime] = useState<boolean>(true);
   const [loadingStatic, setLoadingStatic] = useState<boolean>(true);
-  const [routeProgress, setRouteProgress] = useState<{ current: number; total: number } | null>(null);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
   const [viewState, setViewState] = useState<ViewState>(INITIAL_VIEW_STATE);
   const [glError, setGlError] = useState<string | null>(null);
+  const [feedFailuresByAgency, setFeedFailuresByAgency] = useState<Map<string, RealtimeFetchResult<Vehicle[]>>>(new NativeMap());
+  const [alertsByAgency, setAlertsByAgency] = useState<Map<string, ServiceAlert[]>>(new NativeMap());
+  const [dismissedAlertIds, setDismissedAlertIds] = useState<Set<string>>(new Set());
+  const [showFeedReport, setShowFeedReport] = useState<boolean>(false);
+  const [validationReports, setValidationReports] = useState<ValidationReport[] | null>(null);
+  const [tripUpdatesByAgency, setTripUpdatesByAgency] = useState<Map<string, TripUpdatesIndex>>(new NativeMap());
+  const [scheduledDepartures, setScheduledDepartures] = useState<Departure[] | null>(null);
+  const [panelClock, setPanelClock] = useState<number>(() => Date.now() / 1000);
+  const [tripSchedule, setTripSchedule] = useState<{ tripId: string; stops: TripScheduleStop[] } | null>(null);
+  const [localFeeds, setLocalFeeds] = useState<LocalFeed[]>([]);
+  const [localFeedStatus, setLocalFeedStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
   // const [busModel, setBusModel] = useState<any>(null); // GLTF model type from loaders.gl - COMMENTED OUT: Using 2D icons
   
   // Combined loading state - map only shows when both are ready
@@ -187,142 +455,473 @@ export default function BusMap() {
     loadBusIcon();
   }, []);
 
-  // Define which agencies to fetch data from
-  const agencies = useMemo<Agency[]>(() => [
-    { agency: 'prasarana', category: 'rapid-bus-kl' },
-    // Add more agencies as needed:
-    // { agency: 'prasarana', category: 'rapid-bus-mrtfeeder' },
-    // { agency: 'mybas-kangar' },
-  ], []);
+  // Agencies to show, chosen from AGENCY_OPTIONS under Feeds in the stats panel
+  const [agencies, setAgencies] = useState<Agency[]>(DEFAULT_AGENCIES);
 
-  // Fetch vehicle positions
-  const fetchVehicles = useCallback(async () => {
-    try {
-      const data = await fetchMultipleAgencies(agencies);
-      const currentTime = Date.now() / 1000;
+  // Agencies that have reported at least once (realtime loading completes when all have)
+  const reportedAgencies = useRef<Set<string>>(new Set());
+
+  const markAgencyReported = useCallback((key: string) => {
+    reportedAgencies.current.add(key);
+    if (reportedAgencies.current.size >= agencies.length) {
+      setLoadingRealtime(false);
+    }
+  }, [agencies]);
+
+  // Handle a vehicle position result from the polling scheduler
+  // Failed agencies keep showing their last known vehicles; unchanged feeds skip re-rendering
+  const handleVehicleResult = useCallback((result: RealtimeFetchResult<Vehicle[]>, changed: boolean) => {
+    const key = getAgencyKey({ agency: result.agency, category: result.category || undefined });
+    markAgencyReported(key);
+    
+    if (result.status === 'error') {
+      setFeedFailuresByAgency(prev => new NativeMap(prev).set(key, result));
+      if (result.error?.category === 'rate-limited') {
+        console.warn(`Rate limit exceeded (429) for ${key}. Backing off before the next poll.`);
+      }
+      return;
+    }
+    
+    setFeedFailuresByAgency(prev => {
+      if (!prev.has(key)) return prev;
+      const next = new NativeMap(prev);
+      next.delete(key);
+      return next;
+    });
+    
+    if (!changed) {
+      return;
+    }
+    
+    const data = result.data;
+    const currentTime = result.fetchedAt;
+    
+    // Update vehicle history
+    setVehicleHistory(prev => {
+      const newHistory = new NativeMap(prev);
+      const cutoffTime = currentTime - TRAIL_LENGTH_SECONDS;
       
-      // Update vehicle history
-      setVehicleHistory(prev => {
-        const newHistory = new NativeMap(prev);
+      data.forEach(vehicle => {
+        const history = newHistory.get(vehicle.id) || [];
+        const newPosition: VehiclePosition = {
+          longitude: vehicle.longitude,
+          latitude: vehicle.latitude,
+          timestamp: vehicle.timestamp || currentTime,
+          bearing: vehicle.bearing,
+          speed: vehicle.speed,
+        };
         
-        data.forEach(vehicle => {
-          const vehicleId = vehicle.id;
-          if (!newHistory.has(vehicleId)) {
-            newHistory.set(vehicleId, []);
-          }
-          
-          const history = newHistory.get(vehicleId)!;
-          const newPosition: VehiclePosition = {
-            longitude: vehicle.longitude,
-            latitude: vehicle.latitude,
-            timestamp: vehicle.timestamp || currentTime,
-            bearing: vehicle.bearing,
-            speed: vehicle.speed,
-          };
-          
-          // Add new position
-          history.push(newPosition);
-          
-          // Keep only last 60 seconds of history (assuming 30s updates, keep ~2-3 points)
-          const cutoffTime = currentTime - 60;
-          const filtered = history.filter(pos => pos.timestamp >= cutoffTime);
+        // Feeds often repeat a vehicle's last fix; only record genuinely new positions
+        const last = history[history.length - 1];
+        newHistory.set(
+          vehicle.id,
+          last && last.timestamp === newPosition.timestamp ? history : [...history, newPosition]
+        );
+      });
+      
+      // Drop positions older than the trail length, and vehicles with nothing left
+      newHistory.forEach((history, vehicleId) => {
+        const filtered = history.filter(pos => pos.timestamp >= cutoffTime);
+        if (filtered.length === 0) {
+          newHistory.delete(vehicleId);
+        } else if (filtered.length !== history.length) {
           newHistory.set(vehicleId, filtered);
-        });
-        
-        return newHistory;
+        }
       });
       
-      setVehicles(data);
-      setLoadingRealtime(false);
-    } catch (error) {
-      console.error('Error fetching vehicles:', error);
-      // Check for 429 rate limit errors
-      if (error instanceof Error && error.message?.includes('429')) {
-        console.warn('Rate limit exceeded (429). Consider increasing UPDATE_INTERVAL if this persists.');
-      }
-      setLoadingRealtime(false);
+      return newHistory;
+    });
+    
+    setVehiclesByAgency(prev => new NativeMap(prev).set(key, data));
+  }, [markAgencyReported]);
+
+  // Handle a service alerts result (most agencies do not publish alerts, so failures are not reported)
+  const handleAlertResult = useCallback((result: RealtimeFetchResult<ServiceAlert[]>, changed: boolean) => {
+    if (result.status === 'error' || !changed) {
+      return;
     }
-  }, [agencies]);
+    const key = getAgencyKey({ agency: result.agency, category: result.category || undefined });
+    setAlertsByAgency(prev => new NativeMap(prev).set(key, result.data));
+  }, []);
 
-  // Fetch stops (only once on mount)
-  const fetchStopsData = useCallback(async () => {
-    try {
-      const stopsData = await fetchMultipleAgencyStops(agencies);
-      console.log('Fetched stops:', stopsData.length);
-      setStops(stopsData);
-    } catch (error) {
-      console.error('Error fetching stops:', error);
+  // Handle a trip updates result (used for departure predictions; failures are not reported)
+  const handleTripUpdateResult = useCallback((result: RealtimeFetchResult<TripUpdatesIndex>, changed: boolean) => {
+    if (result.status === 'error' || !changed) {
+      return;
     }
-  }, [agencies]);
+    const key = getAgencyKey({ agency: result.agency, category: result.category || undefined });
+    setTripUpdatesByAgency(prev => new NativeMap(prev).set(key, result.data));
+  }, []);
+
+  const vehicles = useMemo<FeedVehicle[]>(() => {
+    return Array.from(vehiclesByAgency, ([feedKey, list]) => list.map(vehicle => ({ ...vehicle, feedKey }))).flat();
+  }, [vehiclesByAgency]);
+
+  const feedFailures = useMemo(() => {
+    return Array.from(feedFailuresByAgency.values());
+  }, [feedFailuresByAgency]);
+
+  // Static load progress by feed key, and the feeds whose last load failed
+  const feedLoadProgress = useMemo(() => {
+    return new NativeMap((loadProgress?.agencies ?? []).map(progress => [progress.feedKey, progress]));
+  }, [loadProgress]);
+
+  const failedLoads = useMemo(() => {
+    return (loadProgress?.agencies ?? []).filter(progress => progress.status === 'failed');
+  }, [loadProgress]);
+
+  const alerts = useMemo<ServiceAlert[]>(() => {
+    return Array.from(alertsByAgency.values()).flat();
+  }, [alertsByAgency]);
+
+  const tripUpdates = useMemo<TripUpdatesIndex>(() => {
+    return mergeTripUpdates(Array.from(tripUpdatesByAgency.values()));
+  }, [tripUpdatesByAgency]);
+
+  // Show one feed's static data, replacing only its records so feeds can be
+  // loaded, reloaded and removed independently
+  const applyStaticData = useCallback((feed: Agency, data: AgencyStaticData) => {
+    const feedKey = getFeedKey(feed.agency, feed.category);
+    console.log(`Loaded ${feedKey}: ${data.stops.length} stops, ${data.routes.length} trips`);
+    setStops(prev => replaceFeedRecords(prev, [feed], data.stops));
+    setRoutes(prev => replaceFeedRecords(prev, [feed], data.routes));
+    setRouteInfoByFeed(prev => new NativeMap(prev).set(feedKey, new NativeMap(data.routeInfo.map(info => [info.id, info]))));
+    setServiceCalendars(prev => new NativeMap(prev).set(feedKey, data.calendar));
+  }, []);
   
-  // Fetch route paths (only once on mount)
-  // Uses Google Routes API to get road-following paths, cached in session storage
-  const fetchRoutesData = useCallback(async () => {
+  // Drop the static data of feeds no longer shown
+  const removeStaticData = useCallback((feeds: Agency[]) => {
+    if (feeds.length === 0) {
+      return;
+    }
+    const feedKeys = new Set(feeds.map(({ agency, category }) => getFeedKey(agency, category)));
+    setStops(prev => replaceFeedRecords(prev, feeds, []));
+    setRoutes(prev => replaceFeedRecords(prev, feeds, []));
+    setRouteInfoByFeed(prev => new NativeMap([...prev].filter(([feedKey]) => !feedKeys.has(feedKey))));
+    setServiceCalendars(prev => new NativeMap([...prev].filter(([feedKey]) => !feedKeys.has(feedKey))));
+    setSelectedStop(prev => (prev && feedKeys.has(prev.feedKey) ? null : prev));
+  }, []);
+  
+  // Loads static data feed by feed, see loadPipeline; created on mount
+  const loadPipelineRef = useRef<LoadPipeline<AgencyStaticData> | null>(null);
+  
+  // Feeds last handed to the pipeline, to tell which were deselected
+  const loadedFeedsRef = useRef<Agency[]>([]);
+  
+  // Fetch feed validation reports (when the report panel is first opened)
+  const fetchValidationReportsData = useCallback(async () => {
     try {
-      setRouteProgress({ current: 0, total: 0 });
-      const routesData = await fetchMultipleAgencyRoutes(agencies, (current, total) => {
-        setRouteProgress({ current, total });
-      });
-      setRoutes(routesData);
-      setRouteProgress(null);
+      const reports = await fetchMultipleAgencyValidationReports([...agencies, ...localFeeds]);
+      setValidationReports(reports);
     } catch (error) {
-      console.error('Error fetching routes:', error);
-      // Set empty array on error so loading can complete
-      setRoutes([]);
-      setRouteProgress(null);
+      console.error('Error fetching feed validation reports:', error);
+      setValidationReports([]);
     }
-  }, [agencies]);
+  }, [agencies, localFeeds]);
   
-  // Track when static data (stops + routes) is ready
   useEffect(() => {
-    // Static data is ready when we've attempted to fetch both stops and routes
-    // We check this by seeing if routes have been set (even if empty)
-    // This ensures both fetch operations have completed
-    if (routes.length >= 0 && stops.length >= 0) {
-      // Small delay to ensure both fetches have completed
-      const timer = setTimeout(() => {
-        setLoadingStatic(false);
-      }, 500);
-      return () => clearTimeout(timer);
+    if (showFeedReport && validationReports === null) {
+      fetchValidationReportsData();
     }
-  }, [routes.length, stops.length]);
-
+  }, [showFeedReport, validationReports, fetchValidationReportsData]);
+  
+  // Import GTFS ZIPs from the file picker or a drop, and show them alongside the agency feeds
+  const handleLocalFeedFiles = useCallback(async (files: File[]) => {
+    for (const file of files) {
+      if (!/\.zip$/i.test(file.name)) {
+        setLocalFeedStatus({ message: `${file.name} is not a ZIP file`, isError: true });
+        continue;
+      }
+      
+      setLocalFeedStatus({ message: `Importing ${file.name}...`, isError: false });
+      const feed = await loadLocalGTFSFeed(file);
+      if (!feed) {
+        setLocalFeedStatus({ message: `Could not import ${file.name} as a GTFS feed`, isError: true });
+        continue;
+      }
+      
+      // Reloaded explicitly, since a file imported again under the same name is already loaded
+      setLocalFeedStatus({ message: `Loading ${file.name}...`, isError: false });
+      const loading = loadPipelineRef.current?.reload(feed);
+      setLocalFeeds(prev => [...prev.filter(other => other.category !== feed.category), feed]);
+      setValidationReports(null); // The new feed's report is loaded when the panel is next shown
+      const feedStops = (await loading)?.stops ?? [];
+      setLocalFeedStatus(null);
+      
+      // Center on the feed, which may be outside the current view
+      if (feedStops.length > 0) {
+        let west = Infinity, south = Infinity, east = -Infinity, north = -Infinity;
+        feedStops.forEach(stop => {
+          west = Math.min(west, stop.longitude);
+          south = Math.min(south, stop.latitude);
+          east = Math.max(east, stop.longitude);
+          north = Math.max(north, stop.latitude);
+        });
+        setViewState(prev => ({ ...prev, longitude: (west + east) / 2, latitude: (south + north) / 2 }));
+      }
+    }
+  }, []);
+  
+  // Remove a local feed from the cache; its data leaves the map with it
+  const handleRemoveLocalFeed = useCallback(async (feed: LocalFeed) => {
+    await clearGTFSCache(feed.agency, feed.category ?? null);
+    setLocalFeeds(prev => prev.filter(other => other.category !== feed.category));
+    setValidationReports(null);
+  }, []);
+  
+  // Load a feed again after it failed
+  const handleRetryFeed = useCallback((feed: Agency) => {
+    loadPipelineRef.current?.reload(feed);
+  }, []);
+  
+  // Show or hide an agency; a feed still loading when hidden is cancelled
+  const handleToggleAgency = useCallback((agency: Agency, selected: boolean) => {
+    const isSameAgency = (other: Agency) => other.agency === agency.agency && other.category === agency.category;
+    setAgencies(prev => {
+      const others = prev.filter(other => !isSameAgency(other));
+      return selected ? [...others, agency] : others;
+    });
+    setValidationReports(null);
+  }, []);
+  
+  const localFeedInputRef = useRef<HTMLInputElement>(null);
+  
   // Initial data fetch
   useEffect(() => {
-    let intervalId: ReturnType<typeof setInterval> | undefined;
+    const pipeline = createLoadPipeline<AgencyStaticData>({
+      loadAgency: loadAgencyStaticData,
+      onLoaded: applyStaticData,
+      onProgress: progress => {
+        setLoadProgress(progress);
+        // The map shows once the first load settles; later loads run behind it
+        if (progress.done) {
+          setLoadingStatic(false);
+        }
+      },
+    });
+    loadPipelineRef.current = pipeline;
     
-    // Initial fetch
-    fetchVehicles();
-    fetchStopsData();
-    fetchRoutesData();
+    // Local feeds imported on an earlier visit stay in the cache until removed
+    listLocalGTFSFeeds().then(feeds => {
+      if (feeds.length > 0) {
+        setLocalFeeds(feeds);
+      }
+    });
     
-    // Set up polling for vehicle positions
-    // Use a wrapper function to ensure fetchVehicles is called correctly
-    intervalId = setInterval(() => {
-      fetchVehicles();
-    }, UPDATE_INTERVAL);
+    // Reload static data when a newer timetable replaces a cached feed in the background
+    const unsubscribeFeedUpdates = subscribeToGTFSFeedUpdates(feedKey => {
+      const feed = loadedFeedsRef.current.find(({ agency, category }) => getFeedKey(agency, category) === feedKey);
+      if (feed) {
+        console.log(`GTFS feed ${feedKey} updated, reloading static data`);
+        pipeline.reload(feed);
+      }
+      setValidationReports(null); // Reports of the new version are loaded when the panel is next shown
+    });
     
     return () => {
-      if (intervalId) {
-        clearInterval(intervalId);
-      }
+      pipeline.cancel();
+      loadPipelineRef.current = null;
+      unsubscribeFeedUpdates();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Empty dependency array - only run once on mount to prevent multiple intervals
+  }, []); // Empty dependency array - only run once on mount to prevent duplicate pipelines
+
+  // Load the selected agencies and local feeds; switching cancels the loads of
+  // deselected feeds instead of waiting for them, and drops their data
+  useEffect(() => {
+    const feeds = [...agencies, ...localFeeds];
+    const feedKeys = new Set(feeds.map(({ agency, category }) => getFeedKey(agency, category)));
+    removeStaticData(loadedFeedsRef.current.filter(({ agency, category }) => !feedKeys.has(getFeedKey(agency, category))));
+    loadedFeedsRef.current = feeds;
+    loadPipelineRef.current?.load(feeds);
+  }, [agencies, localFeeds, removeStaticData]);
+
+  // Poll vehicle positions and alerts per agency, aligned with each feed's publish cycle
+  // Restarted with the new agencies whenever the selection changes
+  useEffect(() => {
+    const agencyKeys = new Set(agencies.map(getAgencyKey));
+    setVehiclesByAgency(prev => keepAgencyEntries(prev, agencyKeys));
+    setFeedFailuresByAgency(prev => keepAgencyEntries(prev, agencyKeys));
+    setAlertsByAgency(prev => keepAgencyEntries(prev, agencyKeys));
+    setTripUpdatesByAgency(prev => keepAgencyEntries(prev, agencyKeys));
+    
+    const vehicleScheduler = createPollingScheduler<Vehicle[]>({
+      agencies,
+      fetchAgency: ({ agency, category }) => fetchGTFSRealtime(agency, category),
+      emptyData: [],
+      onResult: handleVehicleResult,
+      interval: UPDATE_INTERVAL,
+    });
+    const alertScheduler = createPollingScheduler<ServiceAlert[]>({
+      agencies,
+      fetchAgency: ({ agency, category }) => fetchServiceAlerts(agency, category),
+      emptyData: [],
+      onResult: handleAlertResult,
+      interval: ALERT_UPDATE_INTERVAL,
+      minInterval: ALERT_UPDATE_INTERVAL,
+      optionalFeed: true,
+    });
+    
+    const tripUpdateScheduler = createPollingScheduler<TripUpdatesIndex>({
+      agencies,
+      fetchAgency: ({ agency, category }) => fetchTripUpdates(agency, category),
+      emptyData: createTripUpdatesIndex(),
+      onResult: handleTripUpdateResult,
+      interval: UPDATE_INTERVAL,
+      optionalFeed: true,
+    });
+    
+    vehicleScheduler.start();
+    alertScheduler.start();
+    tripUpdateScheduler.start();
+    
+    return () => {
+      vehicleScheduler.stop();
+      alertScheduler.stop();
+      tripUpdateScheduler.stop();
+    };
+  }, [agencies, handleVehicleResult, handleAlertResult, handleTripUpdateResult]);
 
-  // Convert vehicles to simple position data for bus markers
-  // Just show current bus positions, no paths
+  // Route lookup by trip ID
+  const routesByTrip = useMemo(() => {
+    return new NativeMap(routes.map(route => [route.id, route]));
+  }, [routes]);
+
+  // Trips running on the selected service date
+  // (all trips are kept for feeds without calendar information)
+  const scheduledRoutes = useMemo(() => {
+    return routes.filter(route => isTripServiceActive(serviceCalendars.get(route.feedKey), route.serviceId, serviceDate));
+  }, [routes, serviceCalendars, serviceDate]);
+
+  // One route per pattern for drawing, since trips on a pattern share the same path,
+  // plus the trips on each pattern for alert lookups
+  const { patternRoutes, patternTripIds } = useMemo(() => {
+    const patternRoutes: Route[] = [];
+    const patternTripIds = new NativeMap<string, string[]>();
+    scheduledRoutes.forEach(route => {
+      const tripIds = patternTripIds.get(route.patternId);
+      if (tripIds) {
+        tripIds.push(route.id);
+      } else {
+        patternTripIds.set(route.patternId, [route.id]);
+        patternRoutes.push(route);
+      }
+    });
+    return { patternRoutes, patternTripIds };
+  }, [scheduledRoutes]);
+
+  // Update animation tracks whenever a poll brings new fixes
+  useEffect(() => {
+    setVehicleTracks(prev => {
+      const now = performance.now();
+      const next = new NativeMap<string, VehicleTrack>();
+      
+      vehicles.forEach(vehicle => {
+        const history = vehicleHistory.get(vehicle.id);
+        const fixes = history && history.length > 0 ? history : [vehicle];
+        const path = vehicle.tripId ? routesByTrip.get(vehicle.tripId)?.path ?? null : null;
+        next.set(vehicle.id, updateVehicleTrack(
+          prev.get(vehicle.id),
+          fixes,
+          path,
+          vehicle.currentStatus === 'STOPPED_AT',
+          now
+        ));
+      });
+      
+      return next;
+    });
+  }, [vehicles, vehicleHistory, routesByTrip]);
+
+  // Animation clock - ticks while any bus is still moving on screen, and stops
+  // once all have settled until the tracks change again
+  useEffect(() => {
+    let frameId: number;
+    let lastFrame = 0;
+    
+    const tick = (time: number) => {
+      if (time - lastFrame >= ANIMATION_FRAME_INTERVAL) {
+        lastFrame = time;
+        // Always render this frame so buses that just settled land exactly on their fix
+        setAnimationTime(time);
+        let animating = false;
+        for (const track of vehicleTracks.values()) {
+          if (isTrackAnimating(track, time)) {
+            animating = true;
+            break;
+          }
+        }
+        if (!animating) {
+          return;
+        }
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [vehicleTracks]);
+
+  // Convert vehicles to position data for bus markers, interpolated along their route
   const busPositions = useMemo<BusPosition[]>(() => {
-    return vehicles.map(vehicle => ({
-      id: vehicle.id,
-      longitude: vehicle.longitude,
-      latitude: vehicle.latitude,
-      bearing: vehicle.bearing || 0,
-      speed: vehicle.speed || 0,
-      routeId: vehicle.routeId,
-      tripId: vehicle.tripId,
-    }));
-  }, [vehicles]);
+    return vehicles.map(vehicle => {
+      const track = vehicleTracks.get(vehicle.id);
+      const animated = track ? getAnimatedPosition(track, animationTime) : vehicle;
+      return {
+        id: vehicle.id,
+        label: vehicle.label,
+        licensePlate: vehicle.licensePlate,
+        longitude: animated.longitude,
+        latitude: animated.latitude,
+        bearing: animated.bearing || 0,
+        speed: vehicle.speed || 0,
+        routeId: vehicle.routeId,
+        feedKey: vehicle.feedKey,
+        tripId: vehicle.tripId,
+        directionId: vehicle.directionId,
+        startTime: vehicle.startTime,
+        timestamp: vehicle.timestamp,
+        currentStopSequence: vehicle.currentStopSequence,
+        stopId: vehicle.stopId,
+        currentStatus: vehicle.currentStatus,
+        occupancyStatus: vehicle.occupancyStatus,
+        congestionLevel: vehicle.congestionLevel,
+      };
+    });
+  }, [vehicles, vehicleTracks, animationTime]);
+
+  // Breadcrumb trails from each vehicle's stored position history
+  const vehicleTrails = useMemo<VehicleTrail[]>(() => {
+    if (!showTrails) {
+      return [];
+    }
+    return vehicles
+      .map(vehicle => {
+        const history = vehicleHistory.get(vehicle.id) || [];
+        return {
+          id: vehicle.id,
+          routeId: vehicle.routeId,
+          feedKey: vehicle.feedKey,
+          path: history.map(pos => [pos.longitude, pos.latitude] as [number, number]),
+          timestamps: history.map(pos => pos.timestamp - TRAIL_TIME_ORIGIN),
+        };
+      })
+      .filter(trail => trail.path.length >= 2);
+  }, [vehicles, vehicleHistory, showTrails]);
+
+  const hasTrails = vehicleTrails.length > 0;
+
+  // Trail clock - follows the wall clock while trails are shown, since trail
+  // timestamps are fix times and buses may have stopped animating
+  useEffect(() => {
+    if (!hasTrails) {
+      return;
+    }
+    const update = () => setTrailTime(Date.now() / 1000 - TRAIL_TIME_ORIGIN);
+    update();
+    const interval = setInterval(update, TRAIL_CLOCK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasTrails]);
 
   // Filter bus positions to only include those with valid coordinates
   const validBusPositions = useMemo<BusPosition[]>(() => {
@@ -339,6 +938,11 @@ export default function BusMap() {
     );
   }, [busPositions]);
 
+  // Route info lookup for buses and routes (undefined for unknown routes)
+  const getRouteInfo = useCallback((feedKey: string, routeId: string | null): RouteInfo | undefined => {
+    return routeId ? routeInfoByFeed.get(feedKey)?.get(routeId) : undefined;
+  }, [routeInfoByFeed]);
+
   // Filter buses based on search query (using valid bus positions)
   const filteredBuses = useMemo<BusPosition[]>(() => {
     if (!searchQuery.trim()) {
@@ -347,10 +951,14 @@ export default function BusMap() {
     const query = searchQuery.toLowerCase().trim();
     return validBusPositions.filter(bus => 
       bus.id.toLowerCase().includes(query) ||
+      (bus.licensePlate && bus.licensePlate.toLowerCase().includes(query)) ||
+      (bus.label && bus.label.toLowerCase().includes(query)) ||
       (bus.routeId && bus.routeId.toLowerCase().includes(query)) ||
+      (getRouteInfo(bus.feedKey, bus.routeId)?.shortName?.toLowerCase().includes(query)) ||
+      (getRouteInfo(bus.feedKey, bus.routeId)?.longName?.toLowerCase().includes(query)) ||
       (bus.tripId && bus.tripId.toLowerCase().includes(query))
     );
-  }, [validBusPositions, searchQuery]);
+  }, [validBusPositions, searchQuery, getRouteInfo]);
 
   // Highlight searched bus
   const highlightedBusId = useMemo<string | null>(() => {
@@ -360,65 +968,159 @@ export default function BusMap() {
     return filteredBuses[0].id;
   }, [searchQuery, filteredBuses]);
 
-  // Calculate distance between two coordinates (Haversine formula)
-  const calculateDistance = useCallback((lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = lat1 * Math.PI / 180;
-    const φ2 = lat2 * Math.PI / 180;
-    const Δφ = (lat2 - lat1) * Math.PI / 180;
-    const Δλ = (lon2 - lon1) * Math.PI / 180;
+  // Alerts currently in effect (dismissing only hides the banner, not the highlighting)
+  const activeAlerts = useMemo<ServiceAlert[]>(() => {
+    return alerts.filter(alert => isAlertActive(alert));
+  }, [alerts]);
+
+  const bannerAlerts = useMemo<ServiceAlert[]>(() => {
+    return activeAlerts.filter(alert => !dismissedAlertIds.has(alert.id));
+  }, [activeAlerts, dismissedAlertIds]);
+
+  // Routes, trips and stops named by an active alert's informed entities
+  const alertedEntities = useMemo(() => {
+    const routeIds = new Set<string>();
+    const tripIds = new Set<string>();
+    const stopIds = new Set<string>();
+    
+    activeAlerts.forEach(alert => {
+      alert.informedEntities.forEach(entity => {
+        if (entity.tripId) {
+          tripIds.add(entity.tripId);
+        } else if (entity.routeId) {
+          routeIds.add(entity.routeId);
+        }
+        if (entity.stopId) {
+          stopIds.add(entity.stopId);
+        }
+      });
+    });
+    
+    return { routeIds, tripIds, stopIds };
+  }, [activeAlerts]);
 
-    const a = Math.sin(Δφ/2) * Math.sin(Δφ/2) +
-              Math.cos(φ1) * Math.cos(φ2) *
-              Math.sin(Δλ/2) * Math.sin(Δλ/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  // Checks a drawn pattern route: alerted if its route or any trip on the pattern is affected
+  const isRouteAlerted = useCallback((route: Route): boolean => {
+    if (route.routeId !== null && alertedEntities.routeIds.has(route.routeId)) {
+      return true;
+    }
+    const tripIds = patternTripIds.get(route.patternId) ?? [route.id];
+    return tripIds.some(tripId => alertedEntities.tripIds.has(tripId));
+  }, [alertedEntities, patternTripIds]);
 
-    return R * c; // Distance in meters
+  const handleDismissAlert = useCallback((alertId: string) => {
+    setDismissedAlertIds(prev => new Set(prev).add(alertId));
   }, []);
 
-  // Find next stop for a bus based on its position and route
-  const findNextStop = useCallback((bus: BusPosition): Stop | null => {
+  // Stop lookup by ID for resolving stop_id values from the realtime feed
+  const stopsById = useMemo(() => {
+    return new NativeMap(stops.map(stop => [stop.id, stop]));
+  }, [stops]);
+
+  // Per-pattern geometry for map matching, built lazily the first time a bus on the pattern is matched
+  // (keyed by the shared path array, and recreated when stops change so stop distances stay current)
+  const routeGeometries = useMemo(() => {
+    return new WeakMap<[number, number][], { geometry: RouteGeometry; stops: Stop[] }>();
+  }, [stopsById]);
+
+  // Snap a bus onto its trip's route path and work out its progress
+  const matchBusToRoute = useCallback((bus: BusPosition): { match: RouteMatch; stops: Stop[] } | null => {
     if (!bus.tripId) return null;
 
-    // Find the route for this bus's trip
-    const route = routes.find(r => r.id === bus.tripId);
-    if (!route || !route.path || route.path.length === 0) return null;
+    const route = routesByTrip.get(bus.tripId);
+    if (!route || !route.path || route.path.length < 2) return null;
 
-    // Find the closest point on the route path to the bus's current position
-    let closestIndex = 0;
-    let minDistance = Infinity;
+    let cached = routeGeometries.get(route.path);
+    if (!cached) {
+      const routeStops = route.stopIds
+        .map(stopId => stopsById.get(stopId))
+        .filter((stop): stop is Stop => stop !== undefined);
+      cached = {
+        geometry: buildRouteGeometry(route.path, routeStops.map(stop => [stop.longitude, stop.latitude])),
+        stops: routeStops,
+      };
+      routeGeometries.set(route.path, cached);
+    }
 
-    route.path.forEach((point, index) => {
-      const distance = calculateDistance(
-        bus.latitude,
-        bus.longitude,
-        point[1], // latitude
-        point[0]  // longitude
-      );
-      if (distance < minDistance) {
-        minDistance = distance;
-        closestIndex = index;
-      }
-    });
+    const match = matchToRoute(cached.geometry, [bus.longitude, bus.latitude]);
+    return match ? { match, stops: cached.stops } : null;
+  }, [routesByTrip, routeGeometries, stopsById]);
 
-    // Find the next stop after the closest point
-    // Look for stops that match the route path coordinates
-    const nextPathIndex = closestIndex + 1;
-    if (nextPathIndex >= route.path.length) return null;
-
-    const nextPathPoint = route.path[nextPathIndex];
-    const nextStop = stops.find(stop => {
-      const distance = calculateDistance(
-        stop.latitude,
-        stop.longitude,
-        nextPathPoint[1],
-        nextPathPoint[0]
-      );
-      return distance < 50; // Within 50 meters
+  // Latest poll of the selected bus (selectedBus is a snapshot taken when it was clicked)
+  const selectedVehicle = useMemo<FeedVehicle | null>(() => {
+    return selectedBus ? vehicles.find(vehicle => vehicle.id === selectedBus.id) ?? null : null;
+  }, [selectedBus, vehicles]);
+
+  const selectedTripId = selectedVehicle?.tripId ?? selectedBus?.tripId ?? null;
+
+  // Where the selected bus is along its trip's path
+  const selectedBusMatch = useMemo(() => {
+    const bus = selectedVehicle ?? selectedBus;
+    return bus ? matchBusToRoute(bus) : null;
+  }, [selectedVehicle, selectedBus, matchBusToRoute]);
+
+  // Load the stop times of the selected bus's trip
+  useEffect(() => {
+    setTripSchedule(null);
+    if (!selectedTripId) {
+      return;
+    }
+    const route = routesByTrip.get(selectedTripId);
+    if (!route) {
+      setTripSchedule({ tripId: selectedTripId, stops: [] });
+      return;
+    }
+    let cancelled = false;
+    fetchTripSchedule(route.feedKey, selectedTripId)
+      .then(stops => {
+        if (!cancelled) {
+          setTripSchedule({ tripId: selectedTripId, stops });
+        }
+      })
+      .catch(error => {
+        console.error('Error fetching trip schedule:', error);
+        if (!cancelled) {
+          setTripSchedule({ tripId: selectedTripId, stops: [] });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedTripId, routesByTrip]);
+
+  // Timeline of the selected bus's trip, updated with each poll
+  const tripTimeline = useMemo<TripTimeline | null>(() => {
+    if (!tripSchedule || tripSchedule.tripId !== selectedTripId) {
+      return null;
+    }
+    // Map-matched stop indexes only line up with the schedule when every stop was found
+    const position = selectedBusMatch && selectedBusMatch.stops.length === tripSchedule.stops.length
+      ? selectedBusMatch.match
+      : null;
+    return buildTripTimeline(tripSchedule.stops, {
+      now: panelClock,
+      vehicle: selectedVehicle,
+      position,
+      tripUpdate: tripUpdates.byTrip.get(tripSchedule.tripId) ?? null,
     });
+  }, [tripSchedule, selectedTripId, selectedBusMatch, selectedVehicle, tripUpdates, panelClock]);
 
-    return nextStop || null;
-  }, [routes, stops, calculateDistance]);
+  // The selected bus's trip path, split where the bus is
+  const selectedTripPaths = useMemo<SelectedTripPath[]>(() => {
+    const route = selectedTripId ? routesByTrip.get(selectedTripId) : undefined;
+    if (!route || route.path.length < 2) {
+      return [];
+    }
+    const color = getRouteColor(route.routeId, getRouteInfo(route.feedKey, route.routeId));
+    if (!selectedBusMatch) {
+      return [{ path: route.path, color: [...color, 255] }];
+    }
+    const [travelled, remaining] = splitPathAtDistance(measurePath(route.path), selectedBusMatch.match.distanceTravelled);
+    return [
+      { path: travelled, color: [140, 140, 140, 200] },
+      { path: remaining, color: [...color, 255] },
+    ];
+  }, [selectedTripId, routesByTrip, selectedBusMatch, getRouteInfo]);
 
   // Handle stop click
   const handleStopClick = useCallback((info: PickingInfo) => {
@@ -455,6 +1157,141 @@ export default function BusMap() {
     );
   }, [stops]);
 
+  // Stations with their platforms and entrances
+  const stopHierarchy = useMemo(() => buildStopHierarchy(validStops), [validStops]);
+
+  // Routes serving each station or standalone stop
+  const servingRoutes = useMemo(
+    () => collectServingRoutes(stopHierarchy, patternRoutes),
+    [stopHierarchy, patternRoutes]
+  );
+
+  // Spatial indexes for nearest-stop and nearby-route lookups, rebuilt when static data loads
+  const stopIndex = useMemo(
+    () => createPointIndex(validStops, stop => [stop.longitude, stop.latitude]),
+    [validStops]
+  );
+  const routeSegmentIndex = useMemo(
+    () => createSegmentIndex(patternRoutes, route => route.path),
+    [patternRoutes]
+  );
+
+  // Station whose platforms are shown, i.e. the selected station or the station of a selected platform
+  const expandedStation = selectedStop ? stopHierarchy.stationByStopId.get(selectedStop.id) : undefined;
+
+  // Stops whose departures are listed: every platform of a selected station, otherwise the stop itself
+  const departureStopIds = useMemo<string[]>(() => {
+    if (!selectedStop) {
+      return [];
+    }
+    if (selectedStop.locationType === 'station' && expandedStation) {
+      return [selectedStop.id, ...expandedStation.platforms.map(platform => platform.id)];
+    }
+    return [selectedStop.id];
+  }, [selectedStop, expandedStation]);
+
+  // Tick the panel clock while a stop or bus is open
+  useEffect(() => {
+    if (!selectedStop && !selectedBus) {
+      return;
+    }
+    setPanelClock(Date.now() / 1000);
+    const timer = setInterval(() => setPanelClock(Date.now() / 1000), PANEL_CLOCK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [selectedStop, selectedBus]);
+
+  // Clear the board when another stop is opened
+  useEffect(() => {
+    setScheduledDepartures(null);
+  }, [departureStopIds]);
+
+  // Load the scheduled departures of the selected stop, moving the window on with the clock
+  useEffect(() => {
+    if (!selectedStop || departureStopIds.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    const timetable = createTimetable(selectedStop.feedKey, serviceCalendars.get(selectedStop.feedKey) ?? null);
+    fetchScheduledDepartures(timetable, departureStopIds, { now: panelClock })
+      .then(departures => {
+        if (!cancelled) {
+          setScheduledDepartures(departures);
+        }
+      })
+      .catch(error => {
+        console.error('Error fetching departures:', error);
+        if (!cancelled) {
+          setScheduledDepartures([]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedStop, departureStopIds, serviceCalendars, panelClock]);
+
+  // Scheduled departures overlaid with the latest poll
+  const departures = useMemo<Departure[] | null>(() => {
+    if (!scheduledDepartures) {
+      return null;
+    }
+    return applyRealtimeToDepartures(scheduledDepartures, tripUpdates, vehicles, panelClock);
+  }, [scheduledDepartures, tripUpdates, vehicles, panelClock]);
+
+  // One marker per station instead of one per platform
+  const stationMarkers = useMemo<Stop[]>(
+    () => Array.from(stopHierarchy.stations.values(), station => station.stop),
+    [stopHierarchy]
+  );
+
+  // Stops outside stations, plus the platforms and entrances of the expanded station
+  const stopMarkers = useMemo<Stop[]>(() => {
+    if (!expandedStation) {
+      return stopHierarchy.standaloneStops;
+    }
+    return [...stopHierarchy.standaloneStops, ...expandedStation.platforms, ...expandedStation.entrances];
+  }, [stopHierarchy, expandedStation]);
+
+  // Select the stop nearest to a tap on the map, so small markers don't need a precise hit
+  const handleMapClick = useCallback((info: PickingInfo) => {
+    if (info.object || !info.coordinate) {
+      return;
+    }
+    const [longitude, latitude] = info.coordinate;
+    // Web Mercator ground resolution at the tapped latitude (512px tiles)
+    const metersPerPixel = 40075016.686 * Math.cos(latitude * Math.PI / 180) / (512 * 2 ** viewState.zoom);
+    const [match] = stopIndex.nearest([longitude, latitude], { maxDistance: STOP_TAP_RADIUS_PIXELS * metersPerPixel });
+    if (!match) {
+      return;
+    }
+
+    // Stops inside a closed station are drawn as the station marker
+    const stop = match.item;
+    const station = stopHierarchy.stationByStopId.get(stop.id);
+    const isDrawn = !station || (station === expandedStation &&
+      (stop === station.stop || station.platforms.includes(stop) || station.entrances.includes(stop)));
+    setSelectedStop(isDrawn ? stop : station.stop);
+    setSelectedBus(null);
+  }, [stopIndex, stopHierarchy, expandedStation, viewState.zoom]);
+
+  // Nearest stop and nearby routes of the selected bus when it can't be placed on its trip
+  const selectedBusSurroundings = useMemo(() => {
+    const bus = selectedVehicle ?? selectedBus;
+    if (!bus || (selectedBusMatch && !selectedBusMatch.match.isOffRoute)) {
+      return null;
+    }
+    const position: [number, number] = [bus.longitude, bus.latitude];
+    const [nearestStop] = stopIndex.nearest(position, { maxDistance: NEAREST_STOP_RADIUS });
+    // Keyed by feed and route ID, since feeds may share route IDs
+    const nearbyRoutes = new NativeMap<string, { feedKey: string; routeId: string }>();
+    routeSegmentIndex.withinRadius(position, NEARBY_ROUTE_RADIUS).forEach(({ item }) => {
+      const { feedKey, routeId } = item.item;
+      if (routeId) {
+        nearbyRoutes.set(`${feedKey}:${routeId}`, { feedKey, routeId });
+      }
+    });
+    return { nearestStop: nearestStop ?? null, routes: Array.from(nearbyRoutes.values()) };
+  }, [selectedVehicle, selectedBus, selectedBusMatch, stopIndex, routeSegmentIndex]);
+
   // Get the color for a stop based on its route_id from the service
   const getStopColor = useCallback((stop: Stop): [number, number, number, number] => {
     // Check if selected (yellow)
@@ -462,6 +1299,16 @@ export default function BusMap() {
       return [255, 200, 0, 255]; // Yellow for selected stop
     }
     
+    // Stops affected by an active service alert
+    if (alertedEntities.stopIds.has(stop.id)) {
+      return [255, 120, 0, 255]; // Orange for alerted stop
+    }
+    
+    // Entrances are only shown inside an expanded station
+    if (stop.locationType === 'entrance') {
+      return [120, 120, 120, 255];
+    }
+    
     // Get color from service based on route_id in stops.txt
     const trainColor = getStopColorFromService(stop);
     if (trainColor) {
@@ -470,23 +1317,25 @@ export default function BusMap() {
     
     // Default blue for regular bus stops
     return [0, 128, 255, 255];
-  }, [selectedStop]);
+  }, [selectedStop, alertedEntities]);
 
-  // Layers configuration
-  // Order matters: stops should be on top so they're visible and clickable
+  // Layers configuration, in three groups so the trails can advance without
+  // rebuilding the others; see layers below for the drawing order
   // Only create layers if we have valid data to prevent WebGL errors
-  const layers = useMemo(() => {
+  const routeLayers = useMemo(() => {
     const layerList = [];
     
     // Route paths layer (static routes) - dotted white line showing bus routes
-    if (routes && routes.length > 0) {
+    if (patternRoutes.length > 0) {
       layerList.push(
         new PathLayer<Route>({
           id: 'routes-layer',
-          data: routes,
+          data: patternRoutes,
           getPath: d => d.path,
-          getColor: [255, 255, 255, 150], // White, semi-transparent
-          getWidth: 4,
+          getColor: d => isRouteAlerted(d)
+            ? [255, 120, 0, 230] // Orange for routes affected by an alert
+            : [...getRouteColor(d.routeId, getRouteInfo(d.feedKey, d.routeId)), 170], // Route color, semi-transparent
+          getWidth: d => isRouteAlerted(d) ? 8 : 4,
           widthMinPixels: 2,
           widthMaxPixels: 6,
           capRounded: true,
@@ -494,10 +1343,62 @@ export default function BusMap() {
           getDashArray: [8, 6], // Dotted pattern: 8px dash, 6px gap (more visible)
           dashJustified: true,
           extensions: [new PathStyleExtension({ dash: true })],
+          updateTriggers: {
+            getColor: [alertedEntities, getRouteInfo],
+            getWidth: [alertedEntities],
+          },
         })
       );
     }
     
+    // Selected bus's trip - travelled part greyed out, the rest in the route color
+    if (selectedTripPaths.length > 0) {
+      layerList.push(
+        new PathLayer<SelectedTripPath>({
+          id: 'selected-trip-layer',
+          data: selectedTripPaths,
+          getPath: d => d.path,
+          getColor: d => d.color,
+          getWidth: 8,
+          widthMinPixels: 4,
+          widthMaxPixels: 10,
+          capRounded: true,
+          jointRounded: true,
+        })
+      );
+    }
+    
+    return layerList;
+  }, [patternRoutes, isRouteAlerted, alertedEntities, getRouteInfo, selectedTripPaths]);
+
+  // Vehicle trails layer - fading breadcrumb trail of where each bus has been
+  const trailsLayer = useMemo(() => {
+    if (!hasTrails) {
+      return null;
+    }
+    return new TripsLayer<VehicleTrail>({
+      id: 'trails-layer',
+      data: vehicleTrails,
+      getPath: d => d.path,
+      getTimestamps: d => d.timestamps,
+      getColor: d => getRouteColor(d.routeId, getRouteInfo(d.feedKey, d.routeId)),
+      getWidth: 5,
+      widthMinPixels: 3,
+      capRounded: true,
+      jointRounded: true,
+      fadeTrail: true,
+      trailLength: TRAIL_LENGTH_SECONDS,
+      currentTime: trailTime,
+      opacity: 0.8,
+      updateTriggers: {
+        getColor: [getRouteInfo],
+      },
+    });
+  }, [hasTrails, vehicleTrails, getRouteInfo, trailTime]);
+
+  const markerLayers = useMemo(() => {
+    const layerList = [];
+    
     // Bus positions layer - shows 2D bus icons
     // Use filteredBuses if search is active, otherwise show all valid buses
     const busesToShow = searchQuery.trim() ? filteredBuses : validBusPositions;
@@ -554,7 +1455,7 @@ export default function BusMap() {
             getColor: d => 
               highlightedBusId && d.id === highlightedBusId
                 ? [255, 200, 0, 255] // Yellow tint for highlighted/searched bus
-                : [255, 255, 255, 255], // White (no tint, use original icon colors)
+                : [...getRouteColor(d.routeId, getRouteInfo(d.feedKey, d.routeId)), 255], // Tinted with the route color
             sizeScale: 1,
             sizeMinPixels: isMobile ? 24 : 20,
             sizeMaxPixels: isMobile ? 40 : 36,
@@ -578,7 +1479,7 @@ export default function BusMap() {
             getFillColor: d => 
               highlightedBusId && d.id === highlightedBusId
                 ? [255, 200, 0, 255] // Yellow for highlighted/searched bus
-                : [253, 128, 93, 255], // Orange color for buses
+                : [...getRouteColor(d.routeId, getRouteInfo(d.feedKey, d.routeId)), 255], // Route color
             getLineColor: [255, 255, 255, 255], // White outline
             getLineWidth: 2,
             radiusMinPixels: isMobile ? 12 : 8, // Larger touch target on mobile
@@ -596,15 +1497,42 @@ export default function BusMap() {
       }
     }
     
+    // Stations layer - larger markers below their expanded platforms
+    if (stationMarkers.length > 0) {
+      layerList.push(
+        new ScatterplotLayer<Stop>({
+          id: 'stations-layer',
+          data: stationMarkers,
+          getPosition: d => [d.longitude, d.latitude],
+          getRadius: 150,
+          getFillColor: d => getStopColor(d),
+          updateTriggers: {
+            getFillColor: [selectedStop, alertedEntities],
+          },
+          getLineColor: [255, 255, 255, 255], // White outline
+          getLineWidth: 3,
+          lineWidthMinPixels: 2,
+          radiusMinPixels: 9,
+          radiusMaxPixels: 18,
+          stroked: true,
+          pickable: true,
+          onClick: handleStopClick,
+        })
+      );
+    }
+    
     // Stops layer - on top for visibility and interaction
-    if (validStops && validStops.length > 0) {
+    if (stopMarkers.length > 0) {
       layerList.push(
         new ScatterplotLayer<Stop>({
           id: 'stops-layer',
-          data: validStops,
+          data: stopMarkers,
           getPosition: d => [d.longitude, d.latitude],
           getRadius: 75, // Increased from 50 to make more visible
           getFillColor: d => getStopColor(d),
+          updateTriggers: {
+            getFillColor: [selectedStop, alertedEntities],
+          },
           getLineColor: [255, 255, 255, 255], // White outline
           getLineWidth: 2,
           radiusMinPixels: 6, // Increased from 4
@@ -620,7 +1548,12 @@ export default function BusMap() {
     }
     
     return layerList;
-  }, [routes, validBusPositions, validStops, selectedStop, handleStopClick, handleBusClick, busIconAtlas, isMobile, searchQuery, filteredBuses, highlightedBusId, getStopColor]);
+  }, [validBusPositions, stationMarkers, stopMarkers, selectedStop, handleStopClick, handleBusClick, busIconAtlas, isMobile, searchQuery, filteredBuses, highlightedBusId, getStopColor, alertedEntities, getRouteInfo]);
+
+  // Order matters: stops should be on top so they're visible and clickable
+  const layers = useMemo(() => {
+    return trailsLayer ? [...routeLayers, trailsLayer, ...markerLayers] : [...routeLayers, ...markerLayers];
+  }, [routeLayers, trailsLayer, markerLayers]);
 
   // Close search results when clicking outside
   useEffect(() => {
@@ -712,13 +1645,21 @@ export default function BusMap() {
                 {loadingStatic ? '⏳' : '✓'}
               </div>
               <span style={{ flex: 1, textAlign: 'left' }}>
-                {loadingStatic 
-                  ? (routeProgress 
-                      ? `Computing routes: ${routeProgress.current} / ${routeProgress.total} (using Google Routes API)`
-                      : 'Loading routes and stops...')
-                  : 'Static data ready'}
+                {loadingStatic ? 'Loading routes and stops...' : 'Static data ready'}
               </span>
             </div>
+            
+            {loadingStatic && loadProgress && loadProgress.agencies.map(progress => (
+              <div
+                key={progress.feedKey}
+                style={{ display: 'flex', gap: '10px', paddingLeft: '30px', fontSize: '13px', opacity: 0.85 }}
+              >
+                <span style={{ flex: 1, textAlign: 'left' }}>{getFeedLabel(progress.agency)}</span>
+                <span style={{ color: progress.status === 'failed' ? '#ffb4b4' : 'inherit' }}>
+                  {describeLoadProgress(progress)}
+                </span>
+              </div>
+            ))}
           </div>
           
           {(loadingRealtime || loadingStatic) && (
@@ -733,8 +1674,8 @@ export default function BusMap() {
               <div style={{
                 height: '100%',
                 background: 'white',
-                width: routeProgress && routeProgress.total > 0
-                  ? `${(routeProgress.current / routeProgress.total) * 100}%`
+                width: loadingStatic && loadProgress
+                  ? `${loadProgress.fraction * 100}%`
                   : loadingRealtime && loadingStatic ? '50%' : loadingRealtime || loadingStatic ? '75%' : '100%',
                 transition: 'width 0.3s ease',
                 borderRadius: '2px',
@@ -742,6 +1683,23 @@ export default function BusMap() {
             </div>
           )}
           
+          {loadingStatic && loadProgress && (
+            <button
+              onClick={() => setLoadingStatic(false)}
+              style={{
+                marginTop: '20px',
+                padding: '6px 12px',
+                background: 'rgba(255, 255, 255, 0.15)',
+                border: '1px solid rgba(255, 255, 255, 0.4)',
+                borderRadius: '4px',
+                color: 'white',
+                cursor: 'pointer',
+              }}
+            >
+              Show the map while feeds load
+            </button>
+          )}
+
           <div style={{
             marginTop: '30px',
             padding: '12px',
@@ -751,7 +1709,7 @@ export default function BusMap() {
             opacity: 0.85,
             lineHeight: '1.5',
           }}>
-            <strong>ℹ️ Note:</strong> Bus positions are updated every 45 seconds.
+            <strong>ℹ️ Note:</strong> Bus positions are updated as soon as each new feed is published (about every 30 seconds).
           </div>
         </div>
         
@@ -792,7 +1750,46 @@ export default function BusMap() {
   }
 
   return (
-    <div style={{ width: '100vw', height: '100vh', position: 'relative', overflow: 'hidden' }}>
+    <div
+      style={{ width: '100vw', height: '100vh', position: 'relative', overflow: 'hidden' }}
+      onDragOver={(e) => {
+        // Only file drags can be dropped
+        if (e.dataTransfer.types.includes('Files')) {
+          e.preventDefault();
+          setIsDraggingFile(true);
+        }
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsDraggingFile(false);
+        }
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+        handleLocalFeedFiles(Array.from(e.dataTransfer.files));
+      }}
+    >
+      {isDraggingFile && (
+        <div style={{
+          position: 'absolute',
+          inset: 0,
+          zIndex: 2000,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: 'rgba(0, 102, 204, 0.25)',
+          border: '4px dashed #0066cc',
+          color: 'white',
+          fontSize: '20px',
+          fontWeight: '600',
+          textShadow: '0 1px 4px rgba(0,0,0,0.6)',
+          pointerEvents: 'none', // Keep the drop target underneath
+        }}>
+          Drop a GTFS ZIP to preview it on the map
+        </div>
+      )}
+
       {/* Search Bar */}
       <div data-search-container style={{
         position: 'absolute',
@@ -809,7 +1806,7 @@ export default function BusMap() {
         <div style={{ position: 'relative' }}>
           <input
             type="text"
-            placeholder="Search by bus ID, route, or trip..."
+            placeholder="Search by plate, bus ID, route, or trip..."
             value={searchQuery}
             onChange={(e) => {
               setSearchQuery(e.target.value);
@@ -892,10 +1889,10 @@ export default function BusMap() {
                 }}
               >
                 <div style={{ fontWeight: '600', color: '#333', marginBottom: '4px' }}>
-                  Bus ID: {bus.id}
+                  {bus.licensePlate ? `Plate: ${bus.licensePlate}` : `Bus ID: ${bus.id}`}
                 </div>
                 <div style={{ fontSize: '12px', color: '#666' }}>
-                  Route: {bus.routeId || 'N/A'} | Trip: {bus.tripId || 'N/A'}
+                  Route: {getRouteDisplayName(bus.routeId, getRouteInfo(bus.feedKey, bus.routeId)) || 'N/A'} | Trip: {bus.tripId || 'N/A'}
                 </div>
               </div>
             ))}
@@ -926,6 +1923,16 @@ export default function BusMap() {
         )}
       </div>
 
+      <AlertBanner alerts={bannerAlerts} onDismiss={handleDismissAlert} isMobile={isMobile} />
+
+      {showFeedReport && (
+        <FeedReportPanel
+          reports={validationReports}
+          onClose={() => setShowFeedReport(false)}
+          isMobile={isMobile}
+        />
+      )}
+
       {glError && (
         <div style={{
           position: 'absolute',
@@ -965,7 +1972,158 @@ export default function BusMap() {
           </div>
         )}
         <div>Stops: {validStops.length} / {stops.length}</div>
-        <div>Routes: {routes.length}</div>
+        <div>Routes: {patternRoutes.length} patterns / {scheduledRoutes.length} trips</div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '4px' }}>
+          Service date
+          <input
+            type="date"
+            value={`${serviceDate.slice(0, 4)}-${serviceDate.slice(4, 6)}-${serviceDate.slice(6, 8)}`}
+            onChange={(e) => {
+              if (e.target.value) {
+                setServiceDate(e.target.value.replace(/-/g, ''));
+              }
+            }}
+            style={{ fontSize: 'inherit', padding: '2px 4px', border: '1px solid #ccc', borderRadius: '3px' }}
+          />
+          {serviceDate !== getServiceDate() && (
+            <button
+              onClick={() => setServiceDate(getServiceDate())}
+              style={{ fontSize: '12px', padding: '2px 6px', border: '1px solid #ccc', borderRadius: '3px', background: 'white', cursor: 'pointer' }}
+            >
+              Today
+            </button>
+          )}
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer', marginTop: '4px' }}>
+          <input
+            type="checkbox"
+            checked={showTrails}
+            onChange={(e) => setShowTrails(e.target.checked)}
+          />
+          Trails ({TRAIL_LENGTH_SECONDS / 60} min)
+        </label>
+        <details style={{ marginTop: '4px', maxWidth: '260px' }}>
+          <summary style={{ cursor: 'pointer' }}>
+            Feeds ({agencies.length})
+            {loadProgress && !loadProgress.done && (
+              <span style={{ color: '#666', marginLeft: '4px' }}>
+                loading {Math.round(loadProgress.fraction * 100)}%
+              </span>
+            )}
+          </summary>
+          {AGENCY_OPTIONS.map(option => {
+            const feedKey = getFeedKey(option.agency, option.category);
+            const selected = agencies.some(agency => getFeedKey(agency.agency, agency.category) === feedKey);
+            const progress = selected ? feedLoadProgress.get(feedKey) : undefined;
+            return (
+              <label key={feedKey} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  disabled={selected && agencies.length === 1} // Keep at least one agency
+                  onChange={(e) => handleToggleAgency(option, e.target.checked)}
+                />
+                <span style={{ flex: 1 }}>{option.label}</span>
+                {progress && progress.status !== 'loaded' && (
+                  <span style={{ color: progress.status === 'failed' ? '#dc3545' : '#666' }}>
+                    {progress.status === 'failed' ? 'Failed' : describeLoadProgress(progress)}
+                  </span>
+                )}
+              </label>
+            );
+          })}
+        </details>
+        <button
+          onClick={() => setShowFeedReport(prev => !prev)}
+          style={{ fontSize: '12px', padding: '2px 6px', marginTop: '4px', border: '1px solid #ccc', borderRadius: '3px', background: 'white', cursor: 'pointer' }}
+        >
+          {showFeedReport ? 'Hide feed report' : 'Feed report'}
+          {validationReports && validationReports.some(report => report.errorCount > 0) && (
+            <span style={{ color: '#dc3545', marginLeft: '4px' }}>⚠</span>
+          )}
+        </button>
+        <button
+          onClick={() => localFeedInputRef.current?.click()}
+          title="Preview a GTFS ZIP from your computer (or drop it on the map)"
+          style={{ fontSize: '12px', padding: '2px 6px', marginTop: '4px', marginLeft: '4px', border: '1px solid #ccc', borderRadius: '3px', background: 'white', cursor: 'pointer' }}
+        >
+          Load GTFS ZIP
+        </button>
+        <input
+          ref={localFeedInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          multiple
+          hidden
+          onChange={(e) => {
+            handleLocalFeedFiles(Array.from(e.target.files ?? []));
+            e.target.value = ''; // Allow picking the same file again after it changes
+          }}
+        />
+        {localFeedStatus && (
+          <div style={{ fontSize: '12px', marginTop: '4px', maxWidth: '260px', color: localFeedStatus.isError ? '#dc3545' : '#666' }}>
+            {localFeedStatus.message}
+          </div>
+        )}
+        {localFeeds.length > 0 && (
+          <div style={{ marginTop: '5px', paddingTop: '5px', borderTop: '1px solid #e0e0e0', maxWidth: '260px' }}>
+            <div style={{ fontWeight: '600' }}>Local feeds</div>
+            {localFeeds.map(feed => (
+              <div key={feed.category} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+                <span
+                  title={feed.fileName}
+                  style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                >
+                  {feed.fileName}{feed.feedVersion && ` (${feed.feedVersion})`}
+                </span>
+                <button
+                  onClick={() => handleRemoveLocalFeed(feed)}
+                  aria-label={`Remove ${feed.fileName}`}
+                  style={{ background: 'none', border: 'none', padding: 0, color: '#999', cursor: 'pointer' }}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {failedLoads.length > 0 && (
+          <div style={{ marginTop: '5px', paddingTop: '5px', borderTop: '1px solid #e0e0e0', color: '#dc3545', maxWidth: '260px' }}>
+            <div style={{ fontWeight: '600' }}>
+              ⚠ {failedLoads.length} feed{failedLoads.length === 1 ? '' : 's'} failed to load
+            </div>
+            {failedLoads.map(progress => (
+              <div key={progress.feedKey} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+                <span style={{ flex: 1 }}>
+                  {getFeedLabel(progress.agency)}: {progress.error ?? 'unknown error'}
+                </span>
+                <button
+                  onClick={() => handleRetryFeed(progress.agency)}
+                  style={{ fontSize: '12px', padding: '1px 6px', border: '1px solid #ccc', borderRadius: '3px', background: 'white', cursor: 'pointer' }}
+                >
+                  Retry
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {feedFailures.length > 0 && (
+          <div style={{ marginTop: '5px', paddingTop: '5px', borderTop: '1px solid #e0e0e0', color: '#dc3545', maxWidth: '260px' }}>
+            <div style={{ fontWeight: '600' }}>
+              ⚠ Live data missing for {feedFailures.length} of {agencies.length} feed{agencies.length === 1 ? '' : 's'}
+            </div>
+            {feedFailures.map(result => (
+              <div key={`${result.agency}/${result.category}`} style={{ fontSize: '12px' }}>
+                {result.category || result.agency}: {result.error ? describeFetchError(result.error) : 'unknown error'}
+              </div>
+            ))}
+          </div>
+        )}
+        {activeAlerts.length > 0 && (
+          <div style={{ color: '#ff7800', fontWeight: '600' }}>
+            Alerts: {activeAlerts.length}
+          </div>
+        )}
       </div>
 
       {selectedStop && (
@@ -975,6 +2133,8 @@ export default function BusMap() {
           left: 20,
           right: 20,
           maxWidth: '400px',
+          maxHeight: '60vh',
+          overflowY: 'auto',
           zIndex: 1000,
           color: 'black',
           background: 'white',
@@ -998,6 +2158,27 @@ export default function BusMap() {
               ✕
             </button>
           </div>
+          {selectedStop.locationType === 'station' && (
+            <div style={{ marginBottom: '5px', color: '#666' }}>
+              Station
+              {expandedStation && expandedStation.entrances.length > 0 &&
+                ` · ${expandedStation.entrances.length} entrance${expandedStation.entrances.length === 1 ? '' : 's'}`}
+            </div>
+          )}
+          {expandedStation && selectedStop.locationType !== 'station' && (
+            <div style={{ marginBottom: '5px', color: '#666' }}>
+              {selectedStop.locationType === 'entrance'
+                ? 'Entrance'
+                : selectedStop.platformCode ? `Platform ${selectedStop.platformCode}` : 'Platform'}
+              {' of '}
+              <button
+                onClick={() => setSelectedStop(expandedStation.stop)}
+                style={{ background: 'none', border: 'none', padding: 0, color: '#0066cc', cursor: 'pointer', fontSize: 'inherit' }}
+              >
+                {expandedStation.stop.name}
+              </button>
+            </div>
+          )}
           {selectedStop.code && (
             <div style={{ marginBottom: '5px', color: '#666' }}>
               <strong>Stop Code:</strong> {selectedStop.code}
@@ -1006,9 +2187,74 @@ export default function BusMap() {
           <div style={{ marginBottom: '5px', color: '#666' }}>
             <strong>Stop ID:</strong> {selectedStop.id}
           </div>
+          {(() => {
+            const wheelchairBoarding = getWheelchairBoarding(selectedStop, stopHierarchy);
+            return wheelchairBoarding !== null && (
+              <div style={{ marginBottom: '5px', color: '#666' }}>
+                <strong>Wheelchair:</strong> {wheelchairBoarding ? '♿ Accessible' : 'Not accessible'}
+              </div>
+            );
+          })()}
+          {selectedStop.locationType === 'station' && expandedStation && expandedStation.platforms.length > 0 && (
+            <div style={{ marginBottom: '5px', color: '#666' }}>
+              <strong>Platforms:</strong>
+              <ul style={{ margin: '2px 0 0', paddingLeft: '18px' }}>
+                {expandedStation.platforms.map(platform => (
+                  <li key={platform.id}>
+                    <button
+                      onClick={() => setSelectedStop(platform)}
+                      style={{ background: 'none', border: 'none', padding: 0, color: '#0066cc', cursor: 'pointer', fontSize: 'inherit', textAlign: 'left' }}
+                    >
+                      {platform.platformCode ? `${platform.platformCode} · ${platform.name}` : platform.name}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {(() => {
+            const routeIds = servingRoutes.get(expandedStation?.stop.id ?? selectedStop.id);
+            if (!routeIds || routeIds.size === 0) {
+              return null;
+            }
+            const routeNames = Array.from(routeIds, routeId => ({
+              routeId,
+              name: getRouteDisplayName(routeId, getRouteInfo(selectedStop.feedKey, routeId)) ?? routeId,
+            })).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+            return (
+              <div style={{ marginBottom: '5px', color: '#666' }}>
+                <strong>Routes:</strong>{' '}
+                {routeNames.map(({ routeId, name }) => {
+                  const routeInfo = getRouteInfo(selectedStop.feedKey, routeId);
+                  const [r, g, b] = getRouteColor(routeId, routeInfo);
+                  const [tr, tg, tb] = routeInfo?.textColor ?? [255, 255, 255];
+                  return (
+                    <span
+                      key={routeId}
+                      title={routeInfo?.longName || undefined}
+                      style={{
+                        display: 'inline-block',
+                        padding: '1px 6px',
+                        margin: '2px 4px 2px 0',
+                        borderRadius: '4px',
+                        background: `rgb(${r}, ${g}, ${b})`,
+                        color: `rgb(${tr}, ${tg}, ${tb})`,
+                        fontWeight: '600',
+                        fontSize: '12px',
+                      }}
+                    >
+                      {name}
+                    </span>
+                  );
+                })}
+              </div>
+            );
+          })()}
           <div style={{ color: '#666', fontSize: '12px' }}>
             Coordinates: {selectedStop.latitude.toFixed(6)}, {selectedStop.longitude.toFixed(6)}
           </div>
+          <h4 style={{ margin: '12px 0 4px', fontSize: '14px' }}>Departures</h4>
+          <DepartureBoard departures={departures} now={panelClock} getRouteInfo={getRouteInfo} />
         </div>
       )}
 
@@ -1048,36 +2294,163 @@ export default function BusMap() {
             </button>
           </div>
           <div style={{ marginBottom: '10px' }}>
+            {(() => {
+              const occupancy = selectedBus.occupancyStatus ? OCCUPANCY_BADGES[selectedBus.occupancyStatus] : null;
+              if (!occupancy) return null;
+              return (
+                <div style={{
+                  display: 'inline-block',
+                  marginBottom: isMobile ? '8px' : '5px',
+                  background: occupancy.color,
+                  color: 'white',
+                  borderRadius: '10px',
+                  padding: '2px 10px',
+                  fontSize: '12px',
+                  fontWeight: '600',
+                }}>
+                  {occupancy.label}
+                </div>
+              );
+            })()}
             <div style={{ marginBottom: isMobile ? '8px' : '5px', color: '#666', fontSize: isMobile ? '14px' : 'inherit' }}>
-              <strong>Numberplate/ID:</strong> {selectedBus.id}
+              <strong>Plate:</strong> {selectedBus.licensePlate || 'N/A'}
             </div>
             <div style={{ marginBottom: isMobile ? '8px' : '5px', color: '#666', fontSize: isMobile ? '14px' : 'inherit' }}>
-              <strong>Route ID:</strong> {selectedBus.routeId || 'N/A'}
+              <strong>Vehicle:</strong> {selectedBus.label ? `${selectedBus.label} (${selectedBus.id})` : selectedBus.id}
+            </div>
+            <div style={{ marginBottom: isMobile ? '8px' : '5px', color: '#666', fontSize: isMobile ? '14px' : 'inherit' }}>
+              <strong>Route:</strong>{' '}
+              {(() => {
+                const routeInfo = getRouteInfo(selectedBus.feedKey, selectedBus.routeId);
+                const name = getRouteDisplayName(selectedBus.routeId, routeInfo);
+                if (!name) {
+                  return 'N/A';
+                }
+                const [r, g, b] = getRouteColor(selectedBus.routeId, routeInfo);
+                const [tr, tg, tb] = routeInfo?.textColor ?? [255, 255, 255];
+                return (
+                  <>
+                    <span style={{
+                      display: 'inline-block',
+                      padding: '1px 6px',
+                      borderRadius: '4px',
+                      background: `rgb(${r}, ${g}, ${b})`,
+                      color: `rgb(${tr}, ${tg}, ${tb})`,
+                      fontWeight: '600',
+                    }}>
+                      {name}
+                    </span>
+                    {routeInfo?.shortName && routeInfo.longName && ` ${routeInfo.longName}`}
+                  </>
+                );
+              })()}
+              {selectedBus.directionId !== null && ` (direction ${selectedBus.directionId})`}
             </div>
             <div style={{ marginBottom: isMobile ? '8px' : '5px', color: '#666', fontSize: isMobile ? '14px' : 'inherit' }}>
               <strong>Trip ID:</strong> {selectedBus.tripId || 'N/A'}
+              {selectedBus.startTime && ` (departed ${selectedBus.startTime})`}
             </div>
             {(() => {
-              const nextStop = findNextStop(selectedBus);
+              const progress = selectedBusMatch?.match;
+              const reportedStatus = selectedVehicle?.currentStatus ?? selectedBus.currentStatus;
+              const reportedStopId = selectedVehicle?.stopId ?? selectedBus.stopId;
+              const routeInfo = getRouteInfo(selectedBus.feedKey, selectedBus.routeId);
               return (
                 <div style={{ marginTop: '10px', paddingTop: '10px', borderTop: '1px solid #e0e0e0' }}>
-                  <div style={{ marginBottom: '5px', color: '#333', fontWeight: '600' }}>
-                    <strong>Next Stop:</strong>
-                  </div>
-                  {nextStop ? (
-                    <>
-                      <div style={{ color: '#666', fontSize: '14px' }}>
-                        {nextStop.name}
+                  {reportedStopId && reportedStatus && (
+                    <div style={{ marginBottom: '5px', color: '#666', fontSize: '14px' }}>
+                      <strong>{STOP_STATUS_LABELS[reportedStatus]}:</strong>{' '}
+                      {stopsById.get(reportedStopId)?.name || reportedStopId}
+                    </div>
+                  )}
+                  {progress && (
+                    <div style={{ marginBottom: '8px' }}>
+                      <div style={{ height: '6px', background: '#e0e0e0', borderRadius: '3px', overflow: 'hidden' }}>
+                        <div style={{
+                          height: '100%',
+                          width: `${Math.min(100, progress.fraction * 100).toFixed(1)}%`,
+                          background: '#fd805d',
+                        }} />
+                      </div>
+                      <div style={{ color: '#999', fontSize: '12px', marginTop: '3px' }}>
+                        {Math.round(progress.fraction * 100)}% of trip · {(progress.distanceTravelled / 1000).toFixed(1)} km travelled
                       </div>
-                      {nextStop.code && (
-                        <div style={{ color: '#999', fontSize: '12px', marginTop: '2px' }}>
-                          Code: {nextStop.code}
+                      {progress.isOffRoute && (
+                        <div style={{ color: '#dc3545', fontSize: '12px', marginTop: '3px' }}>
+                          ⚠ Off route by {Math.round(progress.offRouteDistance)} m
                         </div>
                       )}
-                    </>
+                    </div>
+                  )}
+                  {selectedBusSurroundings && (
+                    <div style={{ marginBottom: '8px', color: '#666', fontSize: '14px' }}>
+                      {selectedBusSurroundings.nearestStop && (
+                        <div style={{ marginBottom: '5px' }}>
+                          <strong>Nearest stop:</strong>{' '}
+                          <button
+                            onClick={() => {
+                              setSelectedStop(selectedBusSurroundings.nearestStop!.item);
+                              setSelectedBus(null);
+                            }}
+                            style={{ background: 'none', border: 'none', padding: 0, color: '#0066cc', cursor: 'pointer', fontSize: 'inherit', textAlign: 'left' }}
+                          >
+                            {selectedBusSurroundings.nearestStop.item.name}
+                          </button>
+                          {' '}({Math.round(selectedBusSurroundings.nearestStop.distance)} m)
+                        </div>
+                      )}
+                      {selectedBusSurroundings.routes.length > 0 && (
+                        <div>
+                          <strong>Nearby routes:</strong>{' '}
+                          {selectedBusSurroundings.routes.map(({ feedKey, routeId }) => {
+                            const nearbyRouteInfo = getRouteInfo(feedKey, routeId);
+                            const [r, g, b] = getRouteColor(routeId, nearbyRouteInfo);
+                            const [tr, tg, tb] = nearbyRouteInfo?.textColor ?? [255, 255, 255];
+                            return (
+                              <span
+                                key={`${feedKey}:${routeId}`}
+                                title={nearbyRouteInfo?.longName || undefined}
+                                style={{
+                                  display: 'inline-block',
+                                  padding: '1px 6px',
+                                  margin: '2px 4px 2px 0',
+                                  borderRadius: '4px',
+                                  background: `rgb(${r}, ${g}, ${b})`,
+                                  color: `rgb(${tr}, ${tg}, ${tb})`,
+                                  fontWeight: '600',
+                                  fontSize: '12px',
+                                }}
+                              >
+                                {getRouteDisplayName(routeId, nearbyRouteInfo) ?? routeId}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {selectedTripId ? (
+                    <div style={{
+                      maxHeight: isMobile ? '30vh' : '40vh',
+                      overflowY: 'auto',
+                      touchAction: 'pan-y', // Let the timeline scroll inside the popup
+                    }}>
+                      <TripTimelineView
+                        timeline={tripTimeline}
+                        getStopName={stopId => stopsById.get(stopId)?.name || stopId}
+                        routeColor={getRouteColor(selectedBus.routeId, routeInfo)}
+                        onSelectStop={stopId => {
+                          const stop = stopsById.get(stopId);
+                          if (stop) {
+                            setSelectedStop(stop);
+                            setSelectedBus(null);
+                          }
+                        }}
+                      />
+                    </div>
                   ) : (
                     <div style={{ color: '#999', fontSize: '14px', fontStyle: 'italic' }}>
-                      No next stop information available
+                      No trip information available
                     </div>
                   )}
                 </div>
@@ -1094,6 +2467,12 @@ export default function BusMap() {
           }}>
             <div style={{ marginBottom: isMobile ? '4px' : '0' }}>
               Speed: {(selectedBus.speed * 3.6).toFixed(1)} km/h
+              {selectedBus.congestionLevel && CONGESTION_LABELS[selectedBus.congestionLevel] && (
+                <> · {CONGESTION_LABELS[selectedBus.congestionLevel]}</>
+              )}
+            </div>
+            <div style={{ marginBottom: isMobile ? '4px' : '0' }}>
+              Last update: {new Date(selectedBus.timestamp * 1000).toLocaleTimeString()}
             </div>
             {isMobile && (
               <div>
@@ -1118,6 +2497,7 @@ export default function BusMap() {
           scrollZoom: !isMobile, // Disable scroll zoom on mobile (use pinch instead)
         }}
         layers={layers}
+        onClick={handleMapClick}
         onViewStateChange={(evt) => {
           if ('viewState' in evt) {
             setViewState(evt.viewState as ViewState);
@@ -1136,8 +2516,8 @@ export default function BusMap() {
             const stop = object as Stop;
             return {
               html: `<div style="padding: 8px;">
-                <strong>${stop.name}</strong><br/>
-                ${stop.code ? `Code: ${stop.code}` : ''}
+                <strong>${escapeHTML(stop.name)}</strong><br/>
+                ${stop.code ? `Code: ${escapeHTML(stop.code)}` : ''}
               </div>`,
               style: {
                 backgroundColor: 'rgba(0, 0, 0, 0.8)',
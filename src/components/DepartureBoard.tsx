@@ -0,0 +1,138 @@
+import { getRouteColor, getRouteDisplayName } from '../services/gtfsStatic';
+import type { RouteInfo } from '../services/gtfsStatic';
+import { getExpectedTime } from '../services/stopDepartures';
+import type { Departure } from '../services/stopDepartures';
+import { formatClockTime } from '../services/gtfsTime';
+
+interface DepartureBoardProps {
+  departures: Departure[] | null; // null while loading
+  now: number; // POSIX seconds
+  getRouteInfo: (feedKey: string, routeId: string | null) => RouteInfo | undefined;
+}
+
+// Departures further away than this show a clock time instead of a countdown
+const COUNTDOWN_LIMIT_MINUTES = 60;
+
+/**
+ * Describes how far off the schedule a prediction is
+ */
+function describeDelay(delay: number): { text: string; color: string } {
+  const minutes = Math.round(delay / 60);
+  if (minutes === 0) {
+    return { text: 'On time', color: '#28a745' };
+  }
+  return minutes > 0
+    ? { text: `${minutes} min late`, color: '#dc3545' }
+    : { text: `${-minutes} min early`, color: '#fd7e14' };
+}
+
+/**
+ * Describes where the vehicle running a departure is
+ */
+function describeVehicle(departure: Departure): string | null {
+  const vehicle = departure.vehicle;
+  if (!vehicle) {
+    return null;
+  }
+  const name = vehicle.label || vehicle.id;
+  if (vehicle.atStop) {
+    return `${name} at stop`;
+  }
+  if (vehicle.stopsAway === 0) {
+    return `${name} approaching`;
+  }
+  return `${name} ${vehicle.stopsAway} stop${vehicle.stopsAway === 1 ? '' : 's'} away`;
+}
+
+/**
+ * Next departures from a stop, with realtime predictions where available
+ */
+export default function DepartureBoard({ departures, now, getRouteInfo }: DepartureBoardProps) {
+  if (departures === null) {
+    return <div style={{ color: '#999', fontSize: '13px' }}>Loading departures...</div>;
+  }
+  if (departures.length === 0) {
+    return <div style={{ color: '#999', fontSize: '13px' }}>No departures in the next few hours</div>;
+  }
+
+  return (
+    <div style={{ fontSize: '13px' }}>
+      {departures.map(departure => {
+        const routeInfo = getRouteInfo(departure.feedKey, departure.routeId);
+        const [r, g, b] = getRouteColor(departure.routeId, routeInfo);
+        const [tr, tg, tb] = routeInfo?.textColor ?? [255, 255, 255];
+        const isCancelled = departure.status === 'cancelled' || departure.status === 'skipped';
+        const expectedTime = getExpectedTime(departure);
+        const minutes = Math.round((expectedTime - now) / 60);
+        const vehicleText = describeVehicle(departure);
+
+        return (
+          <div
+            key={`${departure.tripId}|${departure.serviceDate}|${departure.stopSequence}`}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '5px 0',
+              borderTop: '1px solid #eee',
+              opacity: isCancelled ? 0.6 : 1,
+            }}
+          >
+            <span style={{
+              flexShrink: 0,
+              minWidth: '36px',
+              textAlign: 'center',
+              padding: '1px 6px',
+              borderRadius: '4px',
+              background: `rgb(${r}, ${g}, ${b})`,
+              color: `rgb(${tr}, ${tg}, ${tb})`,
+              fontWeight: '600',
+              fontSize: '12px',
+            }}>
+              {getRouteDisplayName(departure.routeId, routeInfo) ?? '?'}
+            </span>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+                whiteSpace: 'nowrap',
+                textDecoration: isCancelled ? 'line-through' : 'none',
+              }}>
+                {departure.headsign || 'Unknown destination'}
+              </div>
+              <div style={{ fontSize: '11px', color: '#666' }}>
+                {departure.status === 'cancelled' && <span style={{ color: '#dc3545' }}>Cancelled</span>}
+                {departure.status === 'skipped' && <span style={{ color: '#dc3545' }}>Not stopping here</span>}
+                {departure.status === 'predicted' && departure.delay !== null && (() => {
+                  const { text, color } = describeDelay(departure.delay);
+                  return <span style={{ color }}>{text}</span>;
+                })()}
+                {departure.status === 'scheduled' && 'Scheduled'}
+                {vehicleText && ` · ${vehicleText}`}
+              </div>
+            </div>
+            <div style={{ flexShrink: 0, textAlign: 'right' }}>
+              <div style={{ fontWeight: '600', color: departure.status === 'predicted' ? '#0066cc' : '#333' }}>
+                {isCancelled
+                  ? formatClockTime(departure.scheduledTime)
+                  : minutes <= 0 ? 'Now'
+                  : minutes < COUNTDOWN_LIMIT_MINUTES ? `${minutes} min`
+                  : formatClockTime(expectedTime)}
+              </div>
+              {!isCancelled && minutes < COUNTDOWN_LIMIT_MINUTES && (
+                <div style={{ fontSize: '11px', color: '#999' }}>
+                  {formatClockTime(expectedTime) !== formatClockTime(departure.scheduledTime) && (
+                    <span style={{ textDecoration: 'line-through', marginRight: '4px' }}>
+                      {formatClockTime(departure.scheduledTime)}
+                    </span>
+                  )}
+                  {formatClockTime(expectedTime)}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
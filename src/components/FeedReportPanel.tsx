@@ -0,0 +1,135 @@
+import type { ValidationReport, ValidationFinding, ValidationCheck } from '../services/feedValidator';
+
+interface FeedReportPanelProps {
+  reports: ValidationReport[] | null; // null while loading
+  onClose: () => void;
+  isMobile: boolean;
+}
+
+// Human-readable labels for each validation check
+const CHECK_LABELS: Record<ValidationCheck, string> = {
+  'missing-file': 'Missing file',
+  'invalid-row': 'Invalid row',
+  'duplicate-id': 'Duplicate ID',
+  'missing-reference': 'Missing reference',
+  'sequence-order': 'Out of order',
+  'station-hierarchy': 'Station hierarchy',
+  'out-of-bounds': 'Outside Malaysia',
+  'unused-stop': 'Unused stop',
+  'impossible-speed': 'Impossible speed',
+};
+
+/**
+ * Returns the badge color for a finding's severity
+ */
+function getSeverityColor(finding: ValidationFinding): string {
+  return finding.severity === 'error' ? '#dc3545' : '#fd7e14';
+}
+
+/**
+ * Panel listing the validation report of every loaded GTFS feed
+ */
+export default function FeedReportPanel({ reports, onClose, isMobile }: FeedReportPanelProps) {
+  return (
+    <div style={{
+      position: 'absolute',
+      top: isMobile ? '120px' : '20px',
+      left: isMobile ? '10px' : '50%',
+      right: isMobile ? '10px' : 'auto',
+      transform: isMobile ? 'none' : 'translateX(-50%)',
+      width: isMobile ? 'auto' : '560px',
+      maxHeight: isMobile ? '60vh' : '75vh',
+      overflowY: 'auto',
+      zIndex: 1002,
+      color: '#333',
+      background: 'white',
+      borderRadius: '5px',
+      boxShadow: '0 2px 8px rgba(0,0,0,0.3)',
+      padding: isMobile ? '12px' : '15px 20px',
+      fontSize: isMobile ? '13px' : '14px',
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+        <h3 style={{ margin: 0, fontSize: '18px' }}>GTFS feed report</h3>
+        <button
+          onClick={onClose}
+          style={{
+            background: '#f0f0f0',
+            border: 'none',
+            borderRadius: '4px',
+            padding: isMobile ? '6px 10px' : '5px 10px',
+            cursor: 'pointer',
+            fontSize: '14px',
+            touchAction: 'manipulation',
+          }}
+          aria-label="Close feed report"
+        >
+          ✕
+        </button>
+      </div>
+
+      {reports === null && (
+        <div style={{ color: '#999' }}>Validating feeds...</div>
+      )}
+      {reports?.length === 0 && (
+        <div style={{ color: '#999' }}>No feeds loaded</div>
+      )}
+
+      {reports?.map(report => (
+        <div key={report.feedKey} style={{ borderTop: '1px solid #e0e0e0', paddingTop: '10px', marginTop: '10px' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '10px' }}>
+            <strong>{report.feedKey}</strong>
+            <span style={{ fontSize: '12px', color: report.errorCount > 0 ? '#dc3545' : report.warningCount > 0 ? '#fd7e14' : '#28a745' }}>
+              {report.errorCount === 0 && report.warningCount === 0
+                ? 'No problems found'
+                : `${report.errorCount} error${report.errorCount === 1 ? '' : 's'}, ${report.warningCount} warning${report.warningCount === 1 ? '' : 's'}`}
+            </span>
+          </div>
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '2px' }}>
+            {report.feedVersion && <>Version {report.feedVersion} · </>}
+            {report.counts.stops} stops · {report.counts.routes} routes · {report.counts.trips} trips · {report.counts.stopTimes} stop times · {report.counts.shapes} shapes
+          </div>
+          <div style={{ fontSize: '11px', color: '#999', marginTop: '2px' }}>
+            Validated {new Date(report.validatedAt).toLocaleString()}
+            {report.source === 'cache' && ' from cached data (duplicate IDs not checked)'}
+          </div>
+
+          {report.findings.map(finding => (
+            <details
+              key={`${finding.check}|${finding.file}|${finding.message}`}
+              style={{ marginTop: '6px', borderLeft: `4px solid ${getSeverityColor(finding)}`, paddingLeft: '8px' }}
+            >
+              <summary style={{ cursor: 'pointer' }}>
+                <span style={{
+                  display: 'inline-block',
+                  background: getSeverityColor(finding),
+                  color: 'white',
+                  borderRadius: '3px',
+                  padding: '1px 6px',
+                  fontSize: '11px',
+                  fontWeight: '600',
+                  marginRight: '6px',
+                }}>
+                  {CHECK_LABELS[finding.check]}
+                </span>
+                <code style={{ fontSize: '12px' }}>{finding.file}</code>: {finding.message}
+                <span style={{ color: '#666' }}> ({finding.count})</span>
+              </summary>
+              {finding.examples.length > 0 && (
+                <ul style={{ margin: '4px 0 0', paddingLeft: '18px', fontSize: '12px', color: '#666' }}>
+                  {finding.examples.map((example, index) => (
+                    <li key={index} style={{ wordBreak: 'break-all' }}>{example}</li>
+                  ))}
+                  {finding.count > finding.examples.length && (
+                    <li style={{ listStyle: 'none', color: '#999' }}>
+                      and {finding.count - finding.examples.length} more
+                    </li>
+                  )}
+                </ul>
+              )}
+            </details>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useRef } from 'react';
+
+import { formatClockTime } from '../services/gtfsTime';
+import type { TripTimeline, TimelineStop } from '../services/tripTimeline';
+
+interface TripTimelineViewProps {
+  timeline: TripTimeline | null; // null while loading
+  getStopName: (stopId: string) => string;
+  routeColor: [number, number, number];
+  onSelectStop: (stopId: string) => void;
+}
+
+// Differences smaller than this are shown as on time
+const ON_TIME_SECONDS = 60;
+
+/**
+ * Color for an estimated time, by how late it is
+ */
+function getDelayColor(delay: number | null): string {
+  if (delay === null || Math.abs(delay) < ON_TIME_SECONDS) {
+    return '#28a745';
+  }
+  return delay > 0 ? '#dc3545' : '#fd7e14';
+}
+
+/**
+ * Describes the trip's current delay
+ */
+function describeDelay(delay: number): string {
+  const minutes = Math.round(delay / 60);
+  if (minutes === 0) {
+    return 'On time';
+  }
+  return minutes > 0 ? `${minutes} min late` : `${-minutes} min early`;
+}
+
+/**
+ * Scheduled and estimated times of one stop
+ */
+function StopTimes({ stop }: { stop: TimelineStop }) {
+  if (stop.skipped) {
+    return <span style={{ color: '#dc3545' }}>Skipped</span>;
+  }
+  const scheduled = stop.scheduledTime !== null ? formatClockTime(stop.scheduledTime) : null;
+  const estimated = stop.estimatedTime !== null ? formatClockTime(stop.estimatedTime) : null;
+  if (!estimated || estimated === scheduled) {
+    return <span style={{ color: estimated ? getDelayColor(stop.delay) : 'inherit' }}>{scheduled ?? '--:--'}</span>;
+  }
+  return (
+    <>
+      {scheduled && <span style={{ textDecoration: 'line-through', marginRight: '4px', color: '#999' }}>{scheduled}</span>}
+      <span style={{ color: getDelayColor(stop.delay) }}>{estimated}</span>
+    </>
+  );
+}
+
+/**
+ * Vertical timeline of a trip's stops, with the vehicle's place along it
+ */
+export default function TripTimelineView({ timeline, getStopName, routeColor, onSelectStop }: TripTimelineViewProps) {
+  const vehicleRowRef = useRef<HTMLDivElement>(null);
+  const [r, g, b] = routeColor;
+  const lineColor = `rgb(${r}, ${g}, ${b})`;
+
+  // Keep the vehicle in view as it moves along the trip
+  const vehicleIndex = timeline?.nextStopIndex ?? timeline?.previousStopIndex ?? null;
+  useEffect(() => {
+    vehicleRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [vehicleIndex]);
+
+  if (timeline === null) {
+    return <div style={{ color: '#999', fontSize: '13px' }}>Loading timetable...</div>;
+  }
+  if (timeline.stops.length === 0) {
+    return <div style={{ color: '#999', fontSize: '13px', fontStyle: 'italic' }}>No timetable for this trip</div>;
+  }
+
+  const { previousStopIndex, nextStopIndex, segmentFraction } = timeline;
+  const isBetweenStops = previousStopIndex !== null && nextStopIndex !== null &&
+    timeline.stops[previousStopIndex].state === 'passed';
+
+  return (
+    <div style={{ fontSize: '13px' }}>
+      {timeline.delay !== null && (
+        <div style={{ marginBottom: '6px', color: getDelayColor(timeline.delay), fontWeight: '600' }}>
+          {describeDelay(timeline.delay)}
+        </div>
+      )}
+      {timeline.stops.map((stop, index) => {
+        const isPassed = stop.state === 'passed';
+        const isCurrent = stop.state === 'current';
+        const isLast = index === timeline.stops.length - 1;
+        // The line below a stop is travelled once the stop is passed
+        const lineBelowTravelled = isPassed && !(isBetweenStops && index === previousStopIndex);
+
+        return (
+          <div key={`${stop.stopSequence}|${stop.stopId}`}>
+            <div
+              ref={isCurrent || (!isBetweenStops && index === nextStopIndex) ? vehicleRowRef : undefined}
+              style={{ display: 'flex', alignItems: 'stretch', gap: '8px', minHeight: '28px' }}
+            >
+              <div style={{ position: 'relative', width: '14px', flexShrink: 0 }}>
+                {index > 0 && (
+                  <div style={{
+                    position: 'absolute', left: '6px', top: 0, height: '50%', width: '2px',
+                    background: isPassed || isCurrent ? lineColor : '#ddd',
+                  }} />
+                )}
+                {!isLast && (
+                  <div style={{
+                    position: 'absolute', left: '6px', top: '50%', height: '50%', width: '2px',
+                    background: lineBelowTravelled ? lineColor : '#ddd',
+                  }} />
+                )}
+                <div style={{
+                  position: 'absolute', left: '1px', top: 'calc(50% - 6px)', width: '8px', height: '8px',
+                  borderRadius: '50%',
+                  border: `2px solid ${isPassed || isCurrent ? lineColor : '#bbb'}`,
+                  background: isCurrent ? lineColor : 'white',
+                }} />
+              </div>
+              <div style={{
+                flex: 1,
+                minWidth: 0,
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '8px',
+                color: isPassed ? '#999' : '#333',
+                fontWeight: isCurrent ? '600' : 'normal',
+              }}>
+                <button
+                  onClick={() => onSelectStop(stop.stopId)}
+                  style={{
+                    background: 'none', border: 'none', padding: 0, cursor: 'pointer', textAlign: 'left',
+                    color: 'inherit', fontWeight: 'inherit', fontSize: 'inherit',
+                    overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap',
+                    textDecoration: stop.skipped ? 'line-through' : 'none',
+                  }}
+                >
+                  {isCurrent && '🚌 '}{getStopName(stop.stopId)}
+                </button>
+                <span style={{ flexShrink: 0, fontSize: '12px' }}>
+                  <StopTimes stop={stop} />
+                </span>
+              </div>
+            </div>
+            {isBetweenStops && index === previousStopIndex && (
+              <div
+                ref={vehicleRowRef}
+                style={{ display: 'flex', alignItems: 'center', gap: '8px', minHeight: '22px' }}
+              >
+                <div style={{ position: 'relative', width: '14px', alignSelf: 'stretch', flexShrink: 0 }}>
+                  <div style={{ position: 'absolute', left: '6px', top: 0, bottom: 0, width: '2px', background: '#ddd' }} />
+                  <div style={{
+                    position: 'absolute', left: '6px', top: 0, width: '2px', background: lineColor,
+                    height: `${Math.round((segmentFraction ?? 0.5) * 100)}%`,
+                  }} />
+                </div>
+                <span style={{ color: lineColor, fontWeight: '600', fontSize: '12px' }}>
+                  🚌 {segmentFraction !== null
+                    ? `${Math.round(segmentFraction * 100)}% of the way to the next stop`
+                    : 'On the way to the next stop'}
+                </span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * RFC 4180 CSV parser for GTFS files
+ * Handles quoted fields containing commas, newlines and escaped "" quotes,
+ * quotes inside unquoted fields (kept as literal characters), a leading UTF-8
+ * byte order mark, and LF, CRLF or CR line endings. Input can
+ * be fed in chunks, so large files such as stop_times.txt are parsed row by
+ * row instead of being split into one giant array of lines.
+ */
+
+import type JSZip from 'jszip';
+
+export interface CSVRow {
+  [key: string]: string;
+}
+
+export interface CSVRecord {
+  readonly headers: string[];
+  /** Raw value of a column ('' when the column is missing or empty) */
+  get(column: string): string;
+  /** Whether the file has the column and this row has a non-empty value for it */
+  has(column: string): boolean;
+  /** Integer value of a column, or null when missing or not a number */
+  getInt(column: string): number | null;
+  /** Floating-point value of a column, or null when missing or not a number */
+  getFloat(column: string): number | null;
+  /** Plain object keyed by header */
+  toObject(): CSVRow;
+}
+
+export interface CSVStreamParser {
+  write(chunk: string): void;
+  end(): void;
+}
+
+type JSZipEntry = JSZip.JSZipObject & {
+  internalStream(type: 'string'): JSZip.JSZipStreamHelper<string>;
+};
+
+const QUOTE = 34; // "
+const COMMA = 44; // ,
+const LF = 10; // \n
+const CR = 13; // \r
+
+// Size of the slices a complete string is fed to the parser in
+const STRING_CHUNK_SIZE = 1 << 16;
+
+/**
+ * Record backed by the shared header index of its file
+ */
+class Record implements CSVRecord {
+  readonly headers: string[];
+  private readonly index: Map<string, number>;
+  private readonly values: string[];
+
+  constructor(headers: string[], index: Map<string, number>, values: string[]) {
+    this.headers = headers;
+    this.index = index;
+    this.values = values;
+  }
+
+  get(column: string): string {
+    const i = this.index.get(column);
+    return i === undefined ? '' : this.values[i] ?? '';
+  }
+
+  has(column: string): boolean {
+    return this.get(column) !== '';
+  }
+
+  getInt(column: string): number | null {
+    const value = this.get(column);
+    if (value === '') return null;
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  getFloat(column: string): number | null {
+    const value = this.get(column);
+    if (value === '') return null;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  toObject(): CSVRow {
+    const row: CSVRow = {};
+    this.headers.forEach((header, i) => {
+      row[header] = this.values[i] ?? '';
+    });
+    return row;
+  }
+}
+
+/**
+ * Creates an incremental CSV parser
+ * The first row is treated as the header; each following row is passed to
+ * onRecord as soon as it is complete. Blank lines are skipped.
+ * @param onRecord - Called for every data row
+ * @returns Parser accepting chunks via write() and flushed by end()
+ */
+export function createCSVParser(onRecord: (record: CSVRecord) => void): CSVStreamParser {
+  let headers: string[] | null = null;
+  let headerIndex = new Map<string, number>();
+
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quotePending = false; // Saw a quote inside a quoted field; next char decides
+  let fieldWasQuoted = false;
+  let skipLF = false; // Previous chunk ended with CR
+  let atStart = true;
+
+  const endField = () => {
+    // Unquoted fields are trimmed (many feeds pad after commas); quoted fields are kept verbatim
+    row.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    const values = row;
+    row = [];
+
+    // Blank line
+    if (values.length === 1 && values[0] === '') {
+      return;
+    }
+
+    if (!headers) {
+      headers = values;
+      headerIndex = new Map(headers.map((header, i) => [header, i]));
+      return;
+    }
+
+    onRecord(new Record(headers, headerIndex, values));
+  };
+
+  const write = (chunk: string) => {
+    let start = 0;
+
+    if (atStart) {
+      atStart = false;
+      if (chunk.charCodeAt(0) === 0xfeff) {
+        start = 1;
+      }
+    }
+
+    // Plain characters are buffered as slices rather than appended one by one
+    let sliceStart = start;
+    const flushSlice = (end: number) => {
+      if (end > sliceStart) {
+        field += chunk.slice(sliceStart, end);
+      }
+    };
+
+    for (let i = start; i < chunk.length; i++) {
+      const code = chunk.charCodeAt(i);
+
+      if (skipLF) {
+        skipLF = false;
+        if (code === LF) {
+          sliceStart = i + 1;
+          continue;
+        }
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (code === QUOTE) {
+          // Escaped quote: keep one and stay inside the quoted field
+          field += '"';
+          sliceStart = i + 1;
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (code === QUOTE) {
+          flushSlice(i);
+          quotePending = true;
+          sliceStart = i + 1;
+        }
+        continue;
+      }
+
+      if (code === QUOTE && !fieldWasQuoted && (field + chunk.slice(sliceStart, i)).trim() === '') {
+        // Opening quote, at the start of the field or after whitespace, which is dropped
+        field = '';
+        inQuotes = true;
+        fieldWasQuoted = true;
+        sliceStart = i + 1;
+      } else if (code === COMMA) {
+        flushSlice(i);
+        endField();
+        sliceStart = i + 1;
+      } else if (code === LF || code === CR) {
+        flushSlice(i);
+        endRow();
+        skipLF = code === CR;
+        sliceStart = i + 1;
+      } else if (fieldWasQuoted) {
+        // Stray characters after a closing quote are ignored; a quote inside an
+        // unquoted field is kept as a literal character
+        sliceStart = i + 1;
+      }
+    }
+
+    flushSlice(chunk.length);
+  };
+
+  const end = () => {
+    quotePending = false;
+    inQuotes = false;
+    if (field !== '' || row.length > 0 || fieldWasQuoted) {
+      endRow();
+    }
+  };
+
+  return { write, end };
+}
+
+/**
+ * Parses a complete CSV string row by row
+ * @param text - CSV content
+ * @param onRecord - Called for every data row
+ */
+export function forEachCSVRecord(text: string, onRecord: (record: CSVRecord) => void): void {
+  const parser = createCSVParser(onRecord);
+  for (let offset = 0; offset < text.length; offset += STRING_CHUNK_SIZE) {
+    parser.write(text.slice(offset, offset + STRING_CHUNK_SIZE));
+  }
+  parser.end();
+}
+
+/**
+ * Parses CSV text into array of objects
+ * Convenient for small files; prefer forEachCSVRecord for large ones
+ */
+export function parseCSV(text: string): CSVRow[] {
+  const rows: CSVRow[] = [];
+  forEachCSVRecord(text, record => rows.push(record.toObject()));
+  return rows;
+}
+
+/**
+ * Streams rows straight out of a ZIP entry without decompressing it into one string
+ * @param file - Entry from a JSZip archive
+ * @param onRecord - Called for every data row
+ * @returns Promise resolving once the whole entry has been parsed
+ */
+export function streamCSVFromZip(
+  file: JSZip.JSZipObject,
+  onRecord: (record: CSVRecord) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const parser = createCSVParser(onRecord);
+    (file as JSZipEntry).internalStream('string')
+      .on('data', chunk => {
+        try {
+          parser.write(chunk);
+        } catch (error) {
+          reject(error);
+        }
+      })
+      .on('error', reject)
+      .on('end', () => {
+        try {
+          parser.end();
+          resolve();
+        } catch (error) {
+          reject(error);
+        }
+      })
+      .resume();
+  });
+}
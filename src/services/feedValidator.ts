@@ -0,0 +1,435 @@
+/**
+ * GTFS feed validator
+ * Checks a parsed feed for problems that make the map silently drop data:
+ * missing files and references, duplicate IDs, rows that could not be parsed,
+ * stop times out of order, coordinates outside Malaysia, unused stops and
+ * trips that would have to travel at impossible speeds.
+ */
+
+import { forEachCSVRecord } from './csvParser';
+import {
+  getFeedMetadata,
+  getFeedStops,
+  getFeedTrips,
+  getFeedStopTimes,
+  getFeedRoutes,
+  getFeedShapes,
+  getFeedFiles,
+  putValidationReport,
+} from './gtfsDatabase';
+import type { FeedRecords, StoredStopTime } from './gtfsDatabase';
+import { haversineDistance } from './geometry';
+
+export type ValidationCheck =
+  | 'missing-file'
+  | 'invalid-row' // Row dropped on import, e.g. a stop without coordinates
+  | 'duplicate-id'
+  | 'missing-reference'
+  | 'sequence-order'
+  | 'station-hierarchy' // parent_station links that break the station model
+  | 'out-of-bounds'
+  | 'unused-stop'
+  | 'impossible-speed';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationFinding {
+  check: ValidationCheck;
+  severity: ValidationSeverity;
+  file: string; // GTFS file the offending rows are in
+  message: string; // The rule that was broken, shared by every occurrence
+  count: number;
+  examples: string[]; // The first few offending IDs or rows
+}
+
+export interface ValidationReport {
+  feedKey: string;
+  feedVersion: string | null;
+  validatedAt: number; // ms since epoch
+  // 'import' reports see every row of the ZIP; 'cache' reports are rebuilt from
+  // stored records, where duplicate IDs have already been collapsed
+  source: 'import' | 'cache';
+  counts: { stops: number; trips: number; stopTimes: number; routes: number; shapes: number };
+  findings: ValidationFinding[];
+  errorCount: number;
+  warningCount: number;
+}
+
+const CHECK_SEVERITY: Record<ValidationCheck, ValidationSeverity> = {
+  'missing-file': 'error',
+  'invalid-row': 'error',
+  'duplicate-id': 'error',
+  'missing-reference': 'error',
+  'sequence-order': 'error',
+  'station-hierarchy': 'error',
+  'out-of-bounds': 'warning',
+  'unused-stop': 'warning',
+  'impossible-speed': 'warning',
+};
+
+// Examples kept per finding; the count still covers every occurrence
+const MAX_EXAMPLES = 10;
+
+// Generous bounding box around Peninsular Malaysia, Sabah and Sarawak
+const MALAYSIA_BOUNDS = { minLat: 0.8, maxLat: 7.6, minLon: 99.6, maxLon: 119.3 };
+
+// Fastest plausible scheduled speeds, in km/h
+const MAX_BUS_SPEED_KMH = 120;
+const MAX_RAIL_SPEED_KMH = 200;
+const RAIL_ROUTE_TYPES = new Set([0, 1, 2, 12]); // Tram, subway, rail, monorail
+
+// GTFS location_type values
+const LOCATION_STOP = 0;
+const LOCATION_STATION = 1;
+const LOCATION_BOARDING_AREA = 4;
+
+// Schedules are often rounded to the minute, so shorter hops are timed as one minute
+const MIN_TRAVEL_SECONDS = 60;
+
+/**
+ * Creates an empty report for a feed
+ * @param feedKey - Feed key
+ * @param feedVersion - feed_version from feed_info.txt, if known
+ * @param source - Whether the report is built from the ZIP or from cached records
+ */
+export function createValidationReport(
+  feedKey: string,
+  feedVersion: string | null,
+  source: ValidationReport['source']
+): ValidationReport {
+  return {
+    feedKey,
+    feedVersion,
+    validatedAt: Date.now(),
+    source,
+    counts: { stops: 0, trips: 0, stopTimes: 0, routes: 0, shapes: 0 },
+    findings: [],
+    errorCount: 0,
+    warningCount: 0,
+  };
+}
+
+/**
+ * Records one occurrence of a problem
+ * Occurrences of the same check, file and message are grouped into one finding
+ * @param report - Report to add to
+ * @param check - Kind of problem
+ * @param file - GTFS file the problem is in
+ * @param message - The rule that was broken
+ * @param example - Offending ID or row, kept for the first few occurrences
+ */
+export function addFinding(
+  report: ValidationReport,
+  check: ValidationCheck,
+  file: string,
+  message: string,
+  example?: string
+): void {
+  let finding = report.findings.find(f => f.check === check && f.file === file && f.message === message);
+  if (!finding) {
+    finding = { check, severity: CHECK_SEVERITY[check], file, message, count: 0, examples: [] };
+    report.findings.push(finding);
+  }
+
+  finding.count++;
+  if (example !== undefined && finding.examples.length < MAX_EXAMPLES) {
+    finding.examples.push(example);
+  }
+
+  if (finding.severity === 'error') {
+    report.errorCount++;
+  } else {
+    report.warningCount++;
+  }
+}
+
+/**
+ * Checks whether a coordinate lies outside Malaysia
+ */
+function isOutsideMalaysia(latitude: number, longitude: number): boolean {
+  return latitude < MALAYSIA_BOUNDS.minLat || latitude > MALAYSIA_BOUNDS.maxLat ||
+    longitude < MALAYSIA_BOUNDS.minLon || longitude > MALAYSIA_BOUNDS.maxLon;
+}
+
+/**
+ * Reports every ID that occurs more than once
+ */
+function checkDuplicates(report: ValidationReport, file: string, field: string, ids: string[]): void {
+  const seen = new Set<string>();
+  ids.forEach(id => {
+    if (seen.has(id)) {
+      addFinding(report, 'duplicate-id', file, `Duplicate ${field}`, id);
+    }
+    seen.add(id);
+  });
+}
+
+/**
+ * Formats seconds since the start of the service day as a GTFS time
+ */
+function formatTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Validates a feed's parsed records
+ * @param report - Report to add findings to, possibly holding findings from import
+ * @param records - Parsed records of the feed
+ * @returns The completed report
+ */
+export function validateFeed(report: ValidationReport, records: FeedRecords): ValidationReport {
+  report.counts = {
+    stops: records.stops.length,
+    trips: records.trips.length,
+    stopTimes: records.stopTimes.length,
+    routes: records.routes.length,
+    shapes: records.shapes.length,
+  };
+
+  const files = new Map(records.files.map(file => [file.filename, file.content]));
+
+  // Required files
+  if (!files.has('agency.txt')) {
+    addFinding(report, 'missing-file', 'agency.txt', 'Required file is missing');
+  }
+  const requiredRecords: Array<[string, number]> = [
+    ['stops.txt', records.stops.length],
+    ['routes.txt', records.routes.length],
+    ['trips.txt', records.trips.length],
+    ['stop_times.txt', records.stopTimes.length],
+  ];
+  requiredRecords.forEach(([file, count]) => {
+    if (count === 0) {
+      addFinding(report, 'missing-file', file, 'Required file is missing or has no valid rows');
+    }
+  });
+
+  // Service IDs defined by the calendar files
+  const serviceIds = new Set<string>();
+  ['calendar.txt', 'calendar_dates.txt'].forEach(file => {
+    const content = files.get(file);
+    if (content) {
+      forEachCSVRecord(content, record => {
+        const serviceId = record.get('service_id');
+        if (serviceId) {
+          serviceIds.add(serviceId);
+        }
+      });
+    }
+  });
+  if (!files.has('calendar.txt') && !files.has('calendar_dates.txt')) {
+    addFinding(report, 'missing-file', 'calendar.txt', 'Neither calendar.txt nor calendar_dates.txt is present');
+  }
+
+  checkDuplicates(report, 'stops.txt', 'stop_id', records.stops.map(stop => stop.stopId));
+  checkDuplicates(report, 'routes.txt', 'route_id', records.routes.map(route => route.routeId));
+  checkDuplicates(report, 'trips.txt', 'trip_id', records.trips.map(trip => trip.tripId));
+  checkDuplicates(
+    report,
+    'stop_times.txt',
+    'trip_id and stop_sequence',
+    records.stopTimes.map(stopTime => `${stopTime.tripId} #${stopTime.stopSequence}`)
+  );
+
+  const stopsById = new Map(records.stops.map(stop => [stop.stopId, stop]));
+  const routesById = new Map(records.routes.map(route => [route.routeId, route]));
+  const tripsById = new Map(records.trips.map(trip => [trip.tripId, trip]));
+  const shapeIds = new Set(records.shapes.map(shape => shape.shapeId));
+
+  // Station hierarchy
+  records.stops.forEach(stop => {
+    const parent = stop.parentStation ? stopsById.get(stop.parentStation) : undefined;
+    if (stop.parentStation && !parent) {
+      addFinding(report, 'missing-reference', 'stops.txt', 'parent_station not found in stops.txt', `${stop.stopId} → ${stop.parentStation}`);
+      return;
+    }
+
+    if (stop.locationType === LOCATION_STATION) {
+      if (parent) {
+        addFinding(report, 'station-hierarchy', 'stops.txt', 'Station has a parent_station', stop.stopId);
+      }
+    } else if (stop.locationType === LOCATION_BOARDING_AREA) {
+      if (!parent || parent.locationType !== LOCATION_STOP) {
+        addFinding(report, 'station-hierarchy', 'stops.txt', 'Boarding area is not inside a platform', stop.stopId);
+      }
+    } else if (stop.locationType !== LOCATION_STOP && !parent) {
+      addFinding(report, 'station-hierarchy', 'stops.txt', 'Entrance or node without a parent_station', stop.stopId);
+    } else if (parent && parent.locationType !== LOCATION_STATION) {
+      addFinding(report, 'station-hierarchy', 'stops.txt', 'parent_station is not a station', `${stop.stopId} → ${parent.stopId}`);
+    }
+  });
+
+  // Coordinates
+  records.stops.forEach(stop => {
+    if (isOutsideMalaysia(stop.latitude, stop.longitude)) {
+      addFinding(report, 'out-of-bounds', 'stops.txt', 'Stop lies outside Malaysia', `${stop.stopId} (${stop.latitude}, ${stop.longitude})`);
+    }
+  });
+  records.shapes.forEach(shape => {
+    if (shape.path.some(([longitude, latitude]) => isOutsideMalaysia(latitude, longitude))) {
+      addFinding(report, 'out-of-bounds', 'shapes.txt', 'Shape has points outside Malaysia', shape.shapeId);
+    }
+    for (let i = 1; i < shape.distances.length; i++) {
+      const previous = shape.distances[i - 1];
+      const current = shape.distances[i];
+      if (previous !== null && current !== null && current < previous) {
+        addFinding(report, 'sequence-order', 'shapes.txt', 'shape_dist_traveled decreases along shape_pt_sequence', shape.shapeId);
+        break;
+      }
+    }
+  });
+
+  // Trip references
+  records.trips.forEach(trip => {
+    if (records.routes.length > 0 && (!trip.routeId || !routesById.has(trip.routeId))) {
+      addFinding(report, 'missing-reference', 'trips.txt', 'route_id not found in routes.txt', `${trip.tripId} → ${trip.routeId ?? '(blank)'}`);
+    }
+    if (serviceIds.size > 0 && (!trip.serviceId || !serviceIds.has(trip.serviceId))) {
+      addFinding(report, 'missing-reference', 'trips.txt', 'service_id not found in calendar files', `${trip.tripId} → ${trip.serviceId ?? '(blank)'}`);
+    }
+    if (trip.shapeId && !shapeIds.has(trip.shapeId)) {
+      addFinding(report, 'missing-reference', 'trips.txt', 'shape_id not found in shapes.txt', `${trip.tripId} → ${trip.shapeId}`);
+    }
+  });
+
+  // Stop time references, grouped by trip for the sequence checks
+  const usedStopIds = new Set<string>();
+  const stopTimesByTrip = new Map<string, StoredStopTime[]>();
+  records.stopTimes.forEach(stopTime => {
+    usedStopIds.add(stopTime.stopId);
+    const stop = stopsById.get(stopTime.stopId);
+    if (!stop) {
+      addFinding(report, 'missing-reference', 'stop_times.txt', 'stop_id not found in stops.txt', `${stopTime.tripId} #${stopTime.stopSequence} → ${stopTime.stopId}`);
+    } else if (stop.locationType !== LOCATION_STOP && stop.locationType !== LOCATION_BOARDING_AREA) {
+      addFinding(report, 'station-hierarchy', 'stop_times.txt', 'stop_id refers to a station, entrance or node', `${stopTime.tripId} #${stopTime.stopSequence} → ${stopTime.stopId}`);
+    }
+    if (!tripsById.has(stopTime.tripId)) {
+      addFinding(report, 'missing-reference', 'stop_times.txt', 'trip_id not found in trips.txt', stopTime.tripId);
+    }
+
+    let tripStopTimes = stopTimesByTrip.get(stopTime.tripId);
+    if (!tripStopTimes) {
+      tripStopTimes = [];
+      stopTimesByTrip.set(stopTime.tripId, tripStopTimes);
+    }
+    tripStopTimes.push(stopTime);
+  });
+
+  records.trips.forEach(trip => {
+    if (!stopTimesByTrip.has(trip.tripId)) {
+      addFinding(report, 'missing-reference', 'trips.txt', 'Trip has no stop times', trip.tripId);
+    }
+  });
+
+  // Stations, entrances and nodes are never served directly
+  records.stops.forEach(stop => {
+    if (stop.locationType === LOCATION_STOP && !usedStopIds.has(stop.stopId)) {
+      addFinding(report, 'unused-stop', 'stops.txt', 'Stop is not served by any trip', stop.stopId);
+    }
+  });
+
+  // Times, distances and speeds along each trip
+  stopTimesByTrip.forEach((tripStopTimes, tripId) => {
+    tripStopTimes.sort((a, b) => a.stopSequence - b.stopSequence);
+
+    const routeType = routesById.get(tripsById.get(tripId)?.routeId ?? '')?.type ?? null;
+    const maxSpeed = routeType !== null && RAIL_ROUTE_TYPES.has(routeType) ? MAX_RAIL_SPEED_KMH : MAX_BUS_SPEED_KMH;
+
+    let previousTimed: { stopTime: StoredStopTime; time: number } | null = null;
+    let previousDistance: number | null = null;
+    let timeOrderReported = false;
+    let speedReported = false;
+    let distanceOrderReported = false;
+
+    for (const stopTime of tripStopTimes) {
+      const arrival = stopTime.arrivalTime ?? stopTime.departureTime;
+      const departure = stopTime.departureTime ?? stopTime.arrivalTime;
+
+      if (arrival !== null && departure !== null && departure < arrival && !timeOrderReported) {
+        addFinding(report, 'sequence-order', 'stop_times.txt', 'Departure is before arrival at a stop', `${tripId} #${stopTime.stopSequence}`);
+        timeOrderReported = true;
+      }
+
+      if (stopTime.shapeDistTraveled !== null) {
+        if (previousDistance !== null && stopTime.shapeDistTraveled < previousDistance && !distanceOrderReported) {
+          addFinding(report, 'sequence-order', 'stop_times.txt', 'shape_dist_traveled decreases along stop_sequence', `${tripId} #${stopTime.stopSequence}`);
+          distanceOrderReported = true;
+        }
+        previousDistance = stopTime.shapeDistTraveled;
+      }
+
+      if (arrival === null || departure === null) {
+        continue;
+      }
+
+      if (previousTimed) {
+        const elapsed = arrival - previousTimed.time;
+        if (elapsed < 0 && !timeOrderReported) {
+          addFinding(
+            report,
+            'sequence-order',
+            'stop_times.txt',
+            'Times go backwards along stop_sequence',
+            `${tripId} #${previousTimed.stopTime.stopSequence} ${formatTime(previousTimed.time)} → #${stopTime.stopSequence} ${formatTime(arrival)}`
+          );
+          timeOrderReported = true;
+        }
+
+        const from = stopsById.get(previousTimed.stopTime.stopId);
+        const to = stopsById.get(stopTime.stopId);
+        if (elapsed >= 0 && from && to && !speedReported) {
+          const distance = haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+          const speed = (distance / Math.max(elapsed, MIN_TRAVEL_SECONDS)) * 3.6;
+          if (speed > maxSpeed) {
+            addFinding(
+              report,
+              'impossible-speed',
+              'stop_times.txt',
+              `Scheduled speed between stops exceeds ${maxSpeed} km/h`,
+              `${tripId}: ${from.stopId} → ${to.stopId} at ${Math.round(speed)} km/h`
+            );
+            speedReported = true;
+          }
+        }
+      }
+
+      previousTimed = { stopTime, time: departure };
+    }
+  });
+
+  // Most severe and most frequent problems first
+  report.findings.sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) || b.count - a.count
+  );
+  report.validatedAt = Date.now();
+
+  return report;
+}
+
+/**
+ * Validates a cached feed from its stored records and stores the report
+ * Used for feeds imported before validation existed; duplicate IDs cannot be
+ * detected this way, since the stores keep one record per ID
+ * @param feedKey - Feed key
+ * @returns The stored report
+ */
+export async function validateCachedFeed(feedKey: string): Promise<ValidationReport> {
+  const [metadata, stops, trips, stopTimes, routes, shapes, files] = await Promise.all([
+    getFeedMetadata(feedKey),
+    getFeedStops(feedKey),
+    getFeedTrips(feedKey),
+    getFeedStopTimes(feedKey),
+    getFeedRoutes(feedKey),
+    getFeedShapes(feedKey),
+    getFeedFiles(feedKey),
+  ]);
+
+  const report = validateFeed(
+    createValidationReport(feedKey, metadata?.feedVersion ?? null, 'cache'),
+    { stops, trips, stopTimes, routes, shapes, files }
+  );
+  await putValidationReport(report);
+  return report;
+}
@@ -0,0 +1,258 @@
+/**
+ * Geometry helpers for [longitude, latitude] paths
+ * Distances are in meters, bearings in degrees clockwise from north
+ */
+
+export type LngLat = [number, number];
+
+export interface PathMeasure {
+  path: LngLat[];
+  cumulative: number[]; // Distance from the start of the path to each vertex
+  length: number;
+}
+
+export interface PathProjection {
+  point: LngLat; // Closest point on the path
+  distance: number; // Distance along the path to that point
+  segmentIndex: number; // Index of the segment's first vertex
+  offset: number; // Distance from the query point to the path
+}
+
+const EARTH_RADIUS = 6371e3; // Earth's radius in meters
+const DEG_TO_RAD = Math.PI / 180;
+
+// Measures are cached per path array so repeated lookups for the same route are free
+const measureCache = new WeakMap<LngLat[], PathMeasure>();
+
+/**
+ * Calculate distance between two coordinates (Haversine formula)
+ */
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const φ1 = lat1 * DEG_TO_RAD;
+  const φ2 = lat2 * DEG_TO_RAD;
+  const Δφ = (lat2 - lat1) * DEG_TO_RAD;
+  const Δλ = (lon2 - lon1) * DEG_TO_RAD;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+            Math.cos(φ1) * Math.cos(φ2) *
+            Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS * c;
+}
+
+/**
+ * Initial bearing from one coordinate to another
+ */
+export function bearingBetween(from: LngLat, to: LngLat): number {
+  const φ1 = from[1] * DEG_TO_RAD;
+  const φ2 = to[1] * DEG_TO_RAD;
+  const Δλ = (to[0] - from[0]) * DEG_TO_RAD;
+
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+
+  return (Math.atan2(y, x) / DEG_TO_RAD + 360) % 360;
+}
+
+/**
+ * Coordinate reached by travelling a distance along a bearing
+ * Uses a flat-earth approximation, accurate for the short hops used in animation
+ */
+export function destinationPoint(origin: LngLat, bearing: number, distance: number): LngLat {
+  const θ = bearing * DEG_TO_RAD;
+  const dLat = (distance * Math.cos(θ)) / EARTH_RADIUS;
+  const dLng = (distance * Math.sin(θ)) / (EARTH_RADIUS * Math.cos(origin[1] * DEG_TO_RAD));
+
+  return [origin[0] + dLng / DEG_TO_RAD, origin[1] + dLat / DEG_TO_RAD];
+}
+
+/**
+ * Precomputes cumulative distances along a path
+ * @param path - Array of [longitude, latitude] coordinates
+ * @returns Path measure (cached for the lifetime of the path array)
+ */
+export function measurePath(path: LngLat[]): PathMeasure {
+  const cached = measureCache.get(path);
+  if (cached) {
+    return cached;
+  }
+
+  const cumulative: number[] = new Array(path.length);
+  let length = 0;
+  for (let i = 0; i < path.length; i++) {
+    if (i > 0) {
+      length += haversineDistance(path[i - 1][1], path[i - 1][0], path[i][1], path[i][0]);
+    }
+    cumulative[i] = length;
+  }
+
+  const measure: PathMeasure = { path, cumulative, length };
+  measureCache.set(path, measure);
+  return measure;
+}
+
+/**
+ * Projects a point onto the closest segment of a path
+ * Works in a local equirectangular plane around the point, which is accurate
+ * to well under a meter at city scale
+ * @param measure - Measured path
+ * @param point - [longitude, latitude] to project
+ * @param minSegment - Optional first segment to consider (for monotonic matching)
+ * @returns Projection, or null for an empty path
+ */
+export function projectOntoPath(measure: PathMeasure, point: LngLat, minSegment: number = 0): PathProjection | null {
+  const { path, cumulative } = measure;
+  if (path.length === 0) {
+    return null;
+  }
+  if (path.length === 1) {
+    return {
+      point: path[0],
+      distance: 0,
+      segmentIndex: 0,
+      offset: haversineDistance(point[1], point[0], path[0][1], path[0][0]),
+    };
+  }
+
+  const kx = Math.cos(point[1] * DEG_TO_RAD) * DEG_TO_RAD * EARTH_RADIUS;
+  const ky = DEG_TO_RAD * EARTH_RADIUS;
+
+  let best: PathProjection | null = null;
+  let bestOffsetSq = Infinity;
+
+  for (let i = Math.max(0, Math.min(minSegment, path.length - 2)); i < path.length - 1; i++) {
+    const ax = (path[i][0] - point[0]) * kx;
+    const ay = (path[i][1] - point[1]) * ky;
+    const bx = (path[i + 1][0] - point[0]) * kx;
+    const by = (path[i + 1][1] - point[1]) * ky;
+
+    const dx = bx - ax;
+    const dy = by - ay;
+    const segmentLengthSq = dx * dx + dy * dy;
+
+    // Parameter of the closest point on the segment (0 = start vertex, 1 = end vertex)
+    const t = segmentLengthSq > 0
+      ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / segmentLengthSq))
+      : 0;
+
+    const px = ax + t * dx;
+    const py = ay + t * dy;
+    const offsetSq = px * px + py * py;
+
+    if (offsetSq < bestOffsetSq) {
+      bestOffsetSq = offsetSq;
+      best = {
+        point: [
+          path[i][0] + t * (path[i + 1][0] - path[i][0]),
+          path[i][1] + t * (path[i + 1][1] - path[i][1]),
+        ],
+        distance: cumulative[i] + t * (cumulative[i + 1] - cumulative[i]),
+        segmentIndex: i,
+        offset: Math.sqrt(offsetSq),
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Projects a point onto a single segment
+ * Uses the same local plane as projectOntoPath
+ * @param a - Segment start
+ * @param b - Segment end
+ * @param point - [longitude, latitude] to project
+ * @returns Closest point, its parameter along the segment (0 = a, 1 = b) and its distance from the query point
+ */
+export function projectOntoSegment(a: LngLat, b: LngLat, point: LngLat): { point: LngLat; t: number; offset: number } {
+  const kx = Math.cos(point[1] * DEG_TO_RAD) * DEG_TO_RAD * EARTH_RADIUS;
+  const ky = DEG_TO_RAD * EARTH_RADIUS;
+
+  const ax = (a[0] - point[0]) * kx;
+  const ay = (a[1] - point[1]) * ky;
+  const dx = (b[0] - a[0]) * kx;
+  const dy = (b[1] - a[1]) * ky;
+  const segmentLengthSq = dx * dx + dy * dy;
+
+  const t = segmentLengthSq > 0
+    ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / segmentLengthSq))
+    : 0;
+  const px = ax + t * dx;
+  const py = ay + t * dy;
+
+  return {
+    point: [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])],
+    t,
+    offset: Math.sqrt(px * px + py * py),
+  };
+}
+
+/**
+ * Finds the index of the segment containing a distance along a path
+ * @param measure - Measured path
+ * @param distance - Distance from the start of the path
+ * @returns Index of the segment's first vertex
+ */
+export function segmentIndexAtDistance(measure: PathMeasure, distance: number): number {
+  const { cumulative } = measure;
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (cumulative[mid] <= distance) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Finds the coordinate and heading at a distance along a path
+ * @param measure - Measured path
+ * @param distance - Distance from the start of the path (clamped to the path)
+ * @returns Point and bearing of the segment it lies on
+ */
+export function pointAlongPath(measure: PathMeasure, distance: number): { point: LngLat; bearing: number } {
+  const { path, cumulative, length } = measure;
+  if (path.length < 2) {
+    return { point: path[0], bearing: 0 };
+  }
+
+  const target = Math.max(0, Math.min(length, distance));
+  const low = segmentIndexAtDistance(measure, target);
+  const high = low + 1;
+
+  const segmentLength = cumulative[high] - cumulative[low];
+  const t = segmentLength > 0 ? (target - cumulative[low]) / segmentLength : 0;
+
+  return {
+    point: [
+      path[low][0] + t * (path[high][0] - path[low][0]),
+      path[low][1] + t * (path[high][1] - path[low][1]),
+    ],
+    bearing: bearingBetween(path[low], path[high]),
+  };
+}
+
+/**
+ * Splits a path at a distance along it
+ * @param measure - Measured path
+ * @param distance - Distance from the start of the path (clamped to the path)
+ * @returns The part before and the part after the split point, both including it
+ */
+export function splitPathAtDistance(measure: PathMeasure, distance: number): [LngLat[], LngLat[]] {
+  const { path } = measure;
+  if (path.length < 2) {
+    return [path, path];
+  }
+
+  const { point } = pointAlongPath(measure, distance);
+  const segmentIndex = segmentIndexAtDistance(measure, Math.max(0, Math.min(measure.length, distance)));
+  return [
+    [...path.slice(0, segmentIndex + 1), point],
+    [point, ...path.slice(segmentIndex + 1)],
+  ];
+}
@@ -72,10 +72,12 @@ async function processQueue(): Promise<void> {
 /**
  * Get road-following route between waypoints using Google Routes API
  * @param waypoints - Array of {lat, lng} waypoints
+ * @param signal - Optional signal; an aborted request rejects instead of falling back, and nothing is cached
  * @returns Promise resolving to array of [longitude, latitude] coordinates
  */
 export async function getRoutePath(
-  waypoints: Array<{ lat: number; lng: number }>
+  waypoints: Array<{ lat: number; lng: number }>,
+  signal?: AbortSignal
 ): Promise<[number, number][]> {
   if (!GOOGLE_ROUTES_API_KEY) {
     console.warn('Google Routes API key not configured. Falling back to straight-line paths.');
@@ -102,7 +104,7 @@ export async function getRoutePath(
     const segments: [number, number][] = [];
     for (let i = 0; i < waypoints.length - 1; i += MAX_WAYPOINTS - 1) {
       const segmentWaypoints = waypoints.slice(i, Math.min(i + MAX_WAYPOINTS, waypoints.length));
-      const segmentPath = await getRoutePath(segmentWaypoints);
+      const segmentPath = await getRoutePath(segmentWaypoints, signal);
       if (i > 0) {
         // Remove first point to avoid duplication
         segments.push(...segmentPath.slice(1));
@@ -115,8 +117,14 @@ export async function getRoutePath(
   }
 
   // Make API request with rate limiting using Google Directions API
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     const makeRequest = async () => {
+      // Aborted while waiting in the queue
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      
       try {
         // Build waypoints string for Directions API
         // Directions API supports up to 25 waypoints (origin + destination + 23 intermediates)
@@ -149,7 +157,8 @@ export async function getRoutePath(
             // Vite proxy format: /api/google-directions?origin=...&destination=...
             // Vite proxy will rewrite the path, so we just need the query params
             // Build the URL relative to current origin
-            const baseUrl = typeof window !== 'undefined' ? window.location.origin : '';
+            // location is also available inside the GTFS worker
+            const baseUrl = typeof location !== 'undefined' ? location.origin : '';
             const viteProxyUrl = new URL(proxyUrl, baseUrl);
             // Copy all search params from the API URL to the proxy URL
             apiUrl.searchParams.forEach((value, key) => {
@@ -162,7 +171,7 @@ export async function getRoutePath(
           fetchUrl = apiUrl.toString();
         }
 
-        const response = await fetch(fetchUrl);
+        const response = await fetch(fetchUrl, { signal });
 
         if (!response.ok) {
           const errorText = await response.text();
@@ -193,6 +202,10 @@ export async function getRoutePath(
         routeCache.set(cacheKey, decodedPath);
         resolve(decodedPath);
       } catch (error) {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
         console.warn('Error fetching route from Google Directions API:', error);
         // Fallback to straight line on error
         const fallbackPath = waypoints.map(wp => [wp.lng, wp.lat]);
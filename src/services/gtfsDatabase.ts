@@ -0,0 +1,485 @@
+/**
+ * IndexedDB storage for GTFS static feeds
+ * Feeds are imported once per version into normalized object stores (stops,
+ * trips, stop_times, routes, shapes) so later visits read parsed records
+ * instead of re-parsing CSV. Every record carries its feed key, and each
+ * feed's records are replaced together in a single transaction.
+ */
+
+import type { ValidationReport } from './feedValidator';
+
+export interface FeedMetadata {
+  feedKey: string; // See getFeedKey
+  agency: string;
+  category: string;
+  downloadedAt: number; // When the cached version was downloaded (ms since epoch)
+  checkedAt: number; // When the server was last asked for a newer version
+  etag: string | null; // HTTP validators for conditional requests
+  lastModified: string | null;
+  contentHash: string | null; // SHA-256 of the ZIP, to spot unchanged downloads
+  feedVersion: string | null; // From feed_info.txt
+  feedStartDate: string | null; // "YYYYMMDD", from feed_info.txt
+  feedEndDate: string | null;
+  fileName?: string; // Name of the local ZIP the feed was loaded from; absent for downloaded feeds
+}
+
+export interface StoredStop {
+  feedKey: string;
+  stopId: string;
+  name: string;
+  code: string | null;
+  latitude: number;
+  longitude: number;
+  routeId: string | null; // Non-standard route_id column some feeds add to stops.txt
+  locationType: number; // GTFS location_type: 0 stop/platform, 1 station, 2 entrance, 3 node, 4 boarding area
+  parentStation: string | null;
+  platformCode: string | null;
+  wheelchairBoarding: number | null; // 0 unknown/inherit, 1 accessible, 2 not accessible
+}
+
+export interface StoredTrip {
+  feedKey: string;
+  tripId: string;
+  routeId: string | null;
+  serviceId: string | null;
+  directionId: number | null;
+  shapeId: string | null;
+  headsign: string | null;
+}
+
+export interface StoredStopTime {
+  feedKey: string;
+  tripId: string;
+  stopSequence: number;
+  stopId: string;
+  arrivalTime: number | null; // Seconds since the start of the service day
+  departureTime: number | null;
+  shapeDistTraveled: number | null;
+}
+
+export interface StoredRoute {
+  feedKey: string;
+  routeId: string;
+  agencyId: string | null;
+  shortName: string | null;
+  longName: string | null;
+  type: number | null;
+  color: [number, number, number] | null;
+  textColor: [number, number, number] | null;
+}
+
+export interface StoredShape {
+  feedKey: string;
+  shapeId: string;
+  path: [number, number][]; // [longitude, latitude] points in shape_pt_sequence order
+  distances: (number | null)[]; // shape_dist_traveled for each point, when published
+}
+
+// Files without a normalized store (calendar.txt, feed_info.txt, ...) are kept as text
+interface StoredFile {
+  feedKey: string;
+  filename: string;
+  content: string;
+  timestamp: number;
+}
+
+export interface FeedRecords {
+  stops: StoredStop[];
+  trips: StoredTrip[];
+  stopTimes: StoredStopTime[];
+  routes: StoredRoute[];
+  shapes: StoredShape[];
+  files: Array<{ filename: string; content: string }>;
+}
+
+const DB_NAME = 'gtfs_cache';
+const DB_VERSION = 5;
+
+const FILES_STORE = 'gtfs_files';
+const METADATA_STORE = 'feed_metadata';
+const STOPS_STORE = 'stops';
+const TRIPS_STORE = 'trips';
+const STOP_TIMES_STORE = 'stop_times';
+const ROUTES_STORE = 'routes';
+const SHAPES_STORE = 'shapes';
+const REPORTS_STORE = 'validation_reports';
+
+// Stores whose primary key starts with the feed key
+const FEED_STORES = [STOPS_STORE, TRIPS_STORE, STOP_TIMES_STORE, ROUTES_STORE, SHAPES_STORE, FILES_STORE];
+
+// Stores keyed by the feed key alone
+const FEED_SUMMARY_STORES = [METADATA_STORE, REPORTS_STORE];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database, creating or migrating the schema if needed
+ * The connection is shared and closed automatically if another tab upgrades the schema
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+
+      if (event.oldVersion < 3) {
+        // Feeds cached as whole CSV files are downloaded again and imported into the new stores
+        [FILES_STORE, METADATA_STORE].forEach(storeName => {
+          if (db.objectStoreNames.contains(storeName)) {
+            db.deleteObjectStore(storeName);
+          }
+        });
+
+        db.createObjectStore(METADATA_STORE, { keyPath: 'feedKey' });
+        db.createObjectStore(FILES_STORE, { keyPath: ['feedKey', 'filename'] });
+        db.createObjectStore(STOPS_STORE, { keyPath: ['feedKey', 'stopId'] });
+
+        const trips = db.createObjectStore(TRIPS_STORE, { keyPath: ['feedKey', 'tripId'] });
+        trips.createIndex('routeId', ['feedKey', 'routeId']);
+
+        const stopTimes = db.createObjectStore(STOP_TIMES_STORE, { keyPath: ['feedKey', 'tripId', 'stopSequence'] });
+        stopTimes.createIndex('tripId', ['feedKey', 'tripId']);
+        stopTimes.createIndex('stopId', ['feedKey', 'stopId']);
+
+        db.createObjectStore(ROUTES_STORE, { keyPath: ['feedKey', 'routeId'] });
+        db.createObjectStore(SHAPES_STORE, { keyPath: ['feedKey', 'shapeId'] });
+      }
+
+      if (event.oldVersion < 4) {
+        db.createObjectStore(REPORTS_STORE, { keyPath: 'feedKey' });
+      }
+
+      if (event.oldVersion >= 3 && event.oldVersion < 5) {
+        // Stops gained station fields; forgetting the metadata makes cached feeds import again
+        const transaction = request.transaction!;
+        transaction.objectStore(METADATA_STORE).clear();
+        transaction.objectStore(REPORTS_STORE).clear();
+      }
+    };
+  });
+
+  // Allow a retry after a failed open (e.g. storage disabled in private mode)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Key range covering every record of a feed in a store keyed by [feedKey, ...]
+ * Arrays sort after strings and numbers, so [feedKey, []] is above any real key
+ */
+function feedKeyRange(feedKey: string): IDBKeyRange {
+  return IDBKeyRange.bound([feedKey], [feedKey, []]);
+}
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits
+ */
+function transactionToPromise(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Runs a single read against one store
+ */
+async function readFromStore<T>(storeName: string, read: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction([storeName], 'readonly');
+  return requestToPromise(read(transaction.objectStore(storeName)));
+}
+
+/**
+ * Runs several reads against one store in a single transaction
+ */
+async function readManyFromStore<K, T>(
+  storeName: string,
+  keys: K[],
+  read: (store: IDBObjectStore, key: K) => IDBRequest<T>
+): Promise<T[]> {
+  const db = await openDatabase();
+  const store = db.transaction([storeName], 'readonly').objectStore(storeName);
+  return Promise.all(keys.map(key => requestToPromise(read(store, key))));
+}
+
+/**
+ * Generate a stable key for a feed, matching the realtime agency keys
+ * @param agency - Agency name
+ * @param category - Optional category
+ */
+export function getFeedKey(agency: string, category?: string | null): string {
+  return category ? `${agency}/${category}` : agency;
+}
+
+/**
+ * Gets a feed's metadata
+ * @param feedKey - Feed key
+ * @returns Metadata, or null if the feed has not been imported
+ */
+export async function getFeedMetadata(feedKey: string): Promise<FeedMetadata | null> {
+  const result = await readFromStore<FeedMetadata | undefined>(METADATA_STORE, store => store.get(feedKey));
+  return result ?? null;
+}
+
+/**
+ * Lists the metadata of every cached feed
+ * @returns Metadata of each imported feed
+ */
+export function listFeedMetadata(): Promise<FeedMetadata[]> {
+  return readFromStore<FeedMetadata[]>(METADATA_STORE, store => store.getAll());
+}
+
+/**
+ * Stores a feed's metadata
+ * @param metadata - Metadata to store
+ */
+export async function putFeedMetadata(metadata: FeedMetadata): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([METADATA_STORE], 'readwrite');
+  transaction.objectStore(METADATA_STORE).put(metadata);
+  await transactionToPromise(transaction);
+}
+
+/**
+ * Replaces all records of a feed in a single transaction
+ * Readers see either the old feed or the new one, never a mix of both
+ * @param metadata - Metadata of the new feed version
+ * @param records - Parsed records of the new feed version
+ * @param report - Validation report of the new feed version, if any
+ */
+export async function replaceFeed(
+  metadata: FeedMetadata,
+  records: FeedRecords,
+  report: ValidationReport | null = null
+): Promise<void> {
+  const { feedKey } = metadata;
+  const db = await openDatabase();
+  const transaction = db.transaction([...FEED_STORES, ...FEED_SUMMARY_STORES], 'readwrite');
+  const done = transactionToPromise(transaction);
+
+  // Remove the previous version first (a new version may drop records)
+  FEED_STORES.forEach(storeName => transaction.objectStore(storeName).delete(feedKeyRange(feedKey)));
+
+  const putAll = (storeName: string, values: object[]) => {
+    const store = transaction.objectStore(storeName);
+    values.forEach(value => store.put(value));
+  };
+
+  putAll(STOPS_STORE, records.stops);
+  putAll(TRIPS_STORE, records.trips);
+  putAll(STOP_TIMES_STORE, records.stopTimes);
+  putAll(ROUTES_STORE, records.routes);
+  putAll(SHAPES_STORE, records.shapes);
+
+  const timestamp = Date.now();
+  putAll(FILES_STORE, records.files.map<StoredFile>(({ filename, content }) => ({
+    feedKey,
+    filename,
+    content,
+    timestamp,
+  })));
+
+  transaction.objectStore(METADATA_STORE).put(metadata);
+  if (report) {
+    transaction.objectStore(REPORTS_STORE).put(report);
+  } else {
+    transaction.objectStore(REPORTS_STORE).delete(feedKey);
+  }
+
+  await done;
+}
+
+/**
+ * Deletes a feed, or every feed when no key is given
+ * @param feedKey - Feed key (optional)
+ */
+export async function deleteFeed(feedKey: string | null = null): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([...FEED_STORES, ...FEED_SUMMARY_STORES], 'readwrite');
+  const done = transactionToPromise(transaction);
+
+  if (feedKey) {
+    FEED_STORES.forEach(storeName => transaction.objectStore(storeName).delete(feedKeyRange(feedKey)));
+    FEED_SUMMARY_STORES.forEach(storeName => transaction.objectStore(storeName).delete(feedKey));
+  } else {
+    [...FEED_STORES, ...FEED_SUMMARY_STORES].forEach(storeName => transaction.objectStore(storeName).clear());
+  }
+
+  await done;
+}
+
+/**
+ * Gets the text of a stored file that has no normalized store
+ * @param feedKey - Feed key
+ * @param filename - File name, e.g. "calendar.txt"
+ * @returns File content, or null if the feed does not include it
+ */
+export async function getFeedFile(feedKey: string, filename: string): Promise<string | null> {
+  const result = await readFromStore<StoredFile | undefined>(FILES_STORE, store => store.get([feedKey, filename]));
+  return result?.content ?? null;
+}
+
+/**
+ * Gets every stored file of a feed that has no normalized store
+ * @param feedKey - Feed key
+ */
+export async function getFeedFiles(feedKey: string): Promise<Array<{ filename: string; content: string }>> {
+  const files = await readFromStore<StoredFile[]>(FILES_STORE, store => store.getAll(feedKeyRange(feedKey)));
+  return files.map(({ filename, content }) => ({ filename, content }));
+}
+
+/**
+ * Gets a feed's validation report
+ * @param feedKey - Feed key
+ * @returns Report, or null if the feed has not been validated
+ */
+export async function getValidationReport(feedKey: string): Promise<ValidationReport | null> {
+  const result = await readFromStore<ValidationReport | undefined>(REPORTS_STORE, store => store.get(feedKey));
+  return result ?? null;
+}
+
+/**
+ * Stores a feed's validation report
+ * @param report - Report to store
+ */
+export async function putValidationReport(report: ValidationReport): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([REPORTS_STORE], 'readwrite');
+  transaction.objectStore(REPORTS_STORE).put(report);
+  await transactionToPromise(transaction);
+}
+
+/**
+ * Gets all stops of a feed
+ */
+export function getFeedStops(feedKey: string): Promise<StoredStop[]> {
+  return readFromStore(STOPS_STORE, store => store.getAll(feedKeyRange(feedKey)));
+}
+
+/**
+ * Gets all trips of a feed
+ */
+export function getFeedTrips(feedKey: string): Promise<StoredTrip[]> {
+  return readFromStore(TRIPS_STORE, store => store.getAll(feedKeyRange(feedKey)));
+}
+
+/**
+ * Gets all stop times of a feed, ordered by trip_id then stop_sequence
+ */
+export function getFeedStopTimes(feedKey: string): Promise<StoredStopTime[]> {
+  return readFromStore(STOP_TIMES_STORE, store => store.getAll(feedKeyRange(feedKey)));
+}
+
+/**
+ * Gets all routes of a feed
+ */
+export function getFeedRoutes(feedKey: string): Promise<StoredRoute[]> {
+  return readFromStore(ROUTES_STORE, store => store.getAll(feedKeyRange(feedKey)));
+}
+
+/**
+ * Gets all shapes of a feed
+ */
+export function getFeedShapes(feedKey: string): Promise<StoredShape[]> {
+  return readFromStore(SHAPES_STORE, store => store.getAll(feedKeyRange(feedKey)));
+}
+
+/**
+ * Gets a single stop
+ * @returns Stop, or null if not found
+ */
+export async function getStop(feedKey: string, stopId: string): Promise<StoredStop | null> {
+  const result = await readFromStore<StoredStop | undefined>(STOPS_STORE, store => store.get([feedKey, stopId]));
+  return result ?? null;
+}
+
+/**
+ * Gets a single trip
+ * @returns Trip, or null if not found
+ */
+export async function getTrip(feedKey: string, tripId: string): Promise<StoredTrip | null> {
+  const result = await readFromStore<StoredTrip | undefined>(TRIPS_STORE, store => store.get([feedKey, tripId]));
+  return result ?? null;
+}
+
+/**
+ * Gets several stops in one transaction
+ * @returns Stops keyed by stop_id; unknown stops are left out
+ */
+export async function getStops(feedKey: string, stopIds: string[]): Promise<Map<string, StoredStop>> {
+  const stops = await readManyFromStore<string, StoredStop | undefined>(STOPS_STORE, stopIds, (store, stopId) => store.get([feedKey, stopId]));
+  return new Map(stops.filter((stop): stop is StoredStop => stop !== undefined).map(stop => [stop.stopId, stop]));
+}
+
+/**
+ * Gets several trips in one transaction
+ * @returns Trips keyed by trip_id; unknown trips are left out
+ */
+export async function getTrips(feedKey: string, tripIds: string[]): Promise<Map<string, StoredTrip>> {
+  const trips = await readManyFromStore<string, StoredTrip | undefined>(TRIPS_STORE, tripIds, (store, tripId) => store.get([feedKey, tripId]));
+  return new Map(trips.filter((trip): trip is StoredTrip => trip !== undefined).map(trip => [trip.tripId, trip]));
+}
+
+/**
+ * Gets the trips of a route
+ */
+export function getTripsForRoute(feedKey: string, routeId: string): Promise<StoredTrip[]> {
+  return readFromStore(TRIPS_STORE, store => store.index('routeId').getAll([feedKey, routeId]));
+}
+
+/**
+ * Gets the stop times of a trip, ordered by stop_sequence
+ */
+export function getStopTimesForTrip(feedKey: string, tripId: string): Promise<StoredStopTime[]> {
+  return readFromStore(STOP_TIMES_STORE, store => store.index('tripId').getAll([feedKey, tripId]));
+}
+
+/**
+ * Gets the stop times of several trips in one transaction
+ * @returns Stop times keyed by trip_id, each ordered by stop_sequence
+ */
+export async function getStopTimesForTrips(feedKey: string, tripIds: string[]): Promise<Map<string, StoredStopTime[]>> {
+  const stopTimes = await readManyFromStore<string, StoredStopTime[]>(
+    STOP_TIMES_STORE,
+    tripIds,
+    (store, tripId) => store.index('tripId').getAll([feedKey, tripId])
+  );
+  return new Map(tripIds.map((tripId, index) => [tripId, stopTimes[index]]));
+}
+
+/**
+ * Gets every stop time at a stop, across all trips
+ */
+export function getStopTimesForStop(feedKey: string, stopId: string): Promise<StoredStopTime[]> {
+  return readFromStore(STOP_TIMES_STORE, store => store.index('stopId').getAll([feedKey, stopId]));
+}
@@ -0,0 +1,546 @@
+/**
+ * GTFS static feed import
+ * Downloads a feed ZIP (or takes one loaded from a local file), parses its
+ * files and stores the records in the feed cache. Kept free of DOM access so
+ * it can run in the GTFS worker. Downloads report the download, unzip and
+ * parse phases of the load pipeline and can be aborted until the cache is written.
+ */
+
+import type JSZip from 'jszip';
+import { forEachCSVRecord, streamCSVFromZip } from './csvParser';
+import type { CSVRecord } from './csvParser';
+import { getFeedKey, putFeedMetadata, replaceFeed } from './gtfsDatabase';
+import type { FeedMetadata, FeedRecords, StoredStop } from './gtfsDatabase';
+import { parseGTFSTime } from './gtfsTime';
+import { createValidationReport, addFinding, validateFeed } from './feedValidator';
+import type { ValidationReport } from './feedValidator';
+import type { LoadContext } from './loadPipeline';
+
+// Files a feed is unusable without; an error reading one fails the import
+const REQUIRED_RECORD_FILES = new Set(['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt']);
+
+export interface FeedImportResult {
+  // 'updated' if a new version was cached, 'unchanged' if the cache is current
+  status: 'updated' | 'unchanged' | 'failed';
+  metadata: FeedMetadata | null; // Metadata of the feed now in the cache
+}
+
+/**
+ * Reads a response body, reporting the bytes received so far
+ * @param response - Response to read
+ * @param onProgress - Called per chunk with bytes received and Content-Length (0 when not sent)
+ * @returns The whole body
+ */
+async function readResponseBody(
+  response: Response,
+  onProgress?: (received: number, total: number) => void
+): Promise<ArrayBuffer> {
+  if (!response.body || !onProgress) {
+    return await response.arrayBuffer();
+  }
+  
+  const total = Number(response.headers.get('content-length')) || 0;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    received += value.byteLength;
+    onProgress(received, total);
+  }
+  
+  const body = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return body.buffer;
+}
+
+/**
+ * Hash downloaded feed bytes so an unchanged feed is recognised without comparing files
+ * @returns Hex SHA-256 digest, or null where Web Crypto is unavailable (insecure contexts)
+ */
+async function hashContent(buffer: ArrayBuffer): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    return null;
+  }
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Opens GTFS ZIP bytes
+ * Checks the ZIP signature first, since servers do not always send a ZIP content-type
+ * @returns The loaded archive, or null if the bytes are not a readable ZIP
+ */
+async function loadGTFSZip(arrayBuffer: ArrayBuffer): Promise<JSZip | null> {
+  // Check if it looks like a ZIP file by checking the magic bytes
+  // ZIP files start with PK (0x50 0x4B) - this is the ZIP file signature
+  const view = new Uint8Array(arrayBuffer);
+  const isZip = view.length >= 2 && view[0] === 0x50 && view[1] === 0x4B;
+  
+  if (!isZip) {
+    console.warn('File does not appear to be a ZIP file (missing PK header)');
+    console.log('First 10 bytes:', Array.from(view.slice(0, 10)).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' '));
+    // Try to read as text to see what we got
+    try {
+      const text = new TextDecoder().decode(view.slice(0, 200));
+      console.log('First 200 chars as text:', text);
+    } catch (e) {
+      // Ignore text decode errors
+    }
+    return null;
+  }
+  
+  console.log('File appears to be a valid ZIP file, processing...');
+  
+  try {
+    const JSZip = (await import('jszip')).default;
+    return await JSZip.loadAsync(arrayBuffer);
+  } catch (zipError) {
+    console.error('Error processing ZIP file:', zipError);
+    if (zipError instanceof Error) {
+      console.error('ZIP error details:', zipError.message, zipError.stack);
+    }
+    return null;
+  }
+}
+
+/**
+ * Download a GTFS ZIP
+ * Always attempts to process the response as a ZIP file regardless of content-type header.
+ * When previous metadata is given, the request is conditional on its ETag/Last-Modified.
+ * @returns The loaded archive with fresh metadata, 'not-modified', or null if the download failed
+ * @throws The abort reason if the signal aborts
+ */
+async function downloadGTFSFeed(
+  agency: string,
+  category: string | null | undefined,
+  previous: FeedMetadata | null,
+  { signal, onProgress }: Partial<LoadContext>
+): Promise<{ zip: JSZip; metadata: FeedMetadata } | 'not-modified' | null> {
+  try {
+    let url = `https://api.data.gov.my/gtfs-static/${agency}`;
+    
+    if (agency === 'prasarana' && category) {
+      url += `?category=${category}`;
+    }
+
+    const headers: Record<string, string> = {};
+    if (previous?.etag) {
+      headers['If-None-Match'] = previous.etag;
+    }
+    if (previous?.lastModified) {
+      headers['If-Modified-Since'] = previous.lastModified;
+    }
+
+    console.log(`Downloading GTFS ZIP from: ${url}`);
+    onProgress?.('download', 0, 0);
+    const response = await fetch(url, { headers, signal });
+    
+    console.log('Response Status:', response.status, response.statusText);
+    console.log('Response URL:', response.url);
+    console.log('Content-Type:', response.headers.get('content-type') || '(not set)');
+    
+    if (response.status === 304) {
+      return 'not-modified';
+    }
+    
+    if (!response.ok) {
+      console.warn(`Failed to fetch GTFS static data from ${url}: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    // Download the response as array buffer (always try as ZIP)
+    const arrayBuffer = await readResponseBody(
+      response,
+      onProgress && ((received, total) => onProgress('download', received, total))
+    );
+    console.log('Downloaded file size:', arrayBuffer.byteLength, 'bytes');
+    
+    onProgress?.('unzip', 0, 1);
+    const zip = await loadGTFSZip(arrayBuffer);
+    if (!zip) {
+      return null;
+    }
+    signal?.throwIfAborted();
+    onProgress?.('unzip', 1, 1);
+    
+    const now = Date.now();
+    return {
+      zip,
+      metadata: {
+        feedKey: getFeedKey(agency, category),
+        agency,
+        category: category || '',
+        downloadedAt: now,
+        checkedAt: now,
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+        contentHash: await hashContent(arrayBuffer),
+        feedVersion: null,
+        feedStartDate: null,
+        feedEndDate: null,
+      },
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    console.error('Error downloading GTFS files:', error);
+    if (error instanceof Error) {
+      console.error('Error details:', error.message, error.stack);
+    }
+    return null;
+  }
+}
+
+/**
+ * Parses every file of a GTFS ZIP into records for the normalized stores
+ * Large files are streamed row by row from the archive; files without a
+ * normalized store are kept as text
+ * @param zip - Loaded GTFS archive
+ * @param metadata - Metadata of the download, completed from feed_info.txt
+ * @param report - Validation report that receives the rows dropped while parsing
+ *                 and the optional files that could not be read
+ * @param context - Optional abort signal, checked between files, and parse progress callback
+ * @returns Parsed records
+ * @throws If a required file cannot be read, so that part of it is never cached as the whole feed
+ */
+async function parseGTFSFeed(
+  zip: JSZip,
+  metadata: FeedMetadata,
+  report: ValidationReport,
+  { signal, onProgress }: Partial<LoadContext>
+): Promise<FeedRecords> {
+  const { feedKey } = metadata;
+  const records: FeedRecords = { stops: [], trips: [], stopTimes: [], routes: [], shapes: [], files: [] };
+  const shapePoints = new Map<string, Array<{ sequence: number; point: [number, number]; distance: number | null }>>();
+  const stopsWithoutCoordinates: StoredStop[] = [];
+  
+  // Rows are numbered from 1, not counting the header
+  const parsers: Record<string, (record: CSVRecord, row: number) => void> = {
+    'stops.txt': (record, row) => {
+      const latitude = record.getFloat('stop_lat');
+      const longitude = record.getFloat('stop_lon');
+      const stopId = record.get('stop_id');
+      if (!stopId) {
+        addFinding(report, 'invalid-row', 'stops.txt', 'Stop without stop_id', `row ${row}`);
+        return;
+      }
+      
+      const stop: StoredStop = {
+        feedKey,
+        stopId,
+        name: record.get('stop_name'),
+        code: record.get('stop_code') || null,
+        latitude: latitude ?? NaN,
+        longitude: longitude ?? NaN,
+        routeId: record.get('route_id') || null, // Extract route_id if present in stops.txt
+        locationType: record.getInt('location_type') ?? 0,
+        parentStation: record.get('parent_station') || null,
+        platformCode: record.get('platform_code') || null,
+        wheelchairBoarding: record.getInt('wheelchair_boarding'),
+      };
+      
+      if (latitude === null || longitude === null) {
+        // Generic nodes and boarding areas may omit coordinates; they take their parent's
+        if ((stop.locationType === 3 || stop.locationType === 4) && stop.parentStation) {
+          stopsWithoutCoordinates.push(stop);
+        } else {
+          addFinding(report, 'invalid-row', 'stops.txt', 'Stop without valid coordinates', stopId);
+        }
+        return;
+      }
+      
+      records.stops.push(stop);
+    },
+    'trips.txt': (record, row) => {
+      const tripId = record.get('trip_id');
+      if (!tripId) {
+        addFinding(report, 'invalid-row', 'trips.txt', 'Trip without trip_id', `row ${row}`);
+        return;
+      }
+      
+      records.trips.push({
+        feedKey,
+        tripId,
+        routeId: record.get('route_id') || null,
+        serviceId: record.get('service_id') || null,
+        directionId: record.getInt('direction_id'),
+        shapeId: record.get('shape_id') || null,
+        headsign: record.get('trip_headsign') || null,
+      });
+    },
+    'stop_times.txt': (record, row) => {
+      const tripId = record.get('trip_id');
+      const stopId = record.get('stop_id');
+      const stopSequence = record.getInt('stop_sequence');
+      if (!tripId || !stopId || stopSequence === null) {
+        addFinding(report, 'invalid-row', 'stop_times.txt', 'Stop time without trip_id, stop_id or stop_sequence', `row ${row}`);
+        return;
+      }
+      
+      // Blank times are allowed for untimed stops, malformed ones are not
+      const arrivalTime = parseGTFSTime(record.get('arrival_time'));
+      const departureTime = parseGTFSTime(record.get('departure_time'));
+      if ((arrivalTime === null && record.get('arrival_time')) || (departureTime === null && record.get('departure_time'))) {
+        addFinding(report, 'invalid-row', 'stop_times.txt', 'Malformed arrival_time or departure_time', `${tripId} #${stopSequence}`);
+      }
+      
+      records.stopTimes.push({
+        feedKey,
+        tripId,
+        stopSequence,
+        stopId,
+        arrivalTime,
+        departureTime,
+        shapeDistTraveled: record.getFloat('shape_dist_traveled'),
+      });
+    },
+    'routes.txt': (record, row) => {
+      const routeId = record.get('route_id');
+      if (!routeId) {
+        addFinding(report, 'invalid-row', 'routes.txt', 'Route without route_id', `row ${row}`);
+        return;
+      }
+      
+      records.routes.push({
+        feedKey,
+        routeId,
+        agencyId: record.get('agency_id') || null,
+        shortName: record.get('route_short_name') || null,
+        longName: record.get('route_long_name') || null,
+        type: record.getInt('route_type'),
+        color: parseHexColor(record.get('route_color')),
+        textColor: parseHexColor(record.get('route_text_color')),
+      });
+    },
+    'shapes.txt': (record, row) => {
+      const shapeId = record.get('shape_id');
+      const latitude = record.getFloat('shape_pt_lat');
+      const longitude = record.getFloat('shape_pt_lon');
+      const sequence = record.getInt('shape_pt_sequence');
+      if (!shapeId || latitude === null || longitude === null || sequence === null) {
+        addFinding(report, 'invalid-row', 'shapes.txt', 'Shape point without shape_id, coordinates or sequence', shapeId || `row ${row}`);
+        return;
+      }
+      
+      let points = shapePoints.get(shapeId);
+      if (!points) {
+        points = [];
+        shapePoints.set(shapeId, points);
+      }
+      points.push({
+        sequence,
+        point: [longitude, latitude],
+        distance: record.getFloat('shape_dist_traveled'),
+      });
+    },
+  };
+  
+  const files = Object.values(zip.files).filter(file => !file.dir);
+  for (const [index, file] of files.entries()) {
+    signal?.throwIfAborted();
+    onProgress?.('parse', index, files.length);
+    
+    const filename = file.name.split('/').pop() || file.name; // Get just the filename
+    const parser = parsers[filename];
+    try {
+      if (parser) {
+        let row = 0;
+        await streamCSVFromZip(file, record => parser(record, ++row));
+      } else {
+        records.files.push({ filename, content: await file.async('string') });
+      }
+      console.log(`Imported ${filename}`);
+    } catch (err) {
+      if (REQUIRED_RECORD_FILES.has(filename)) {
+        throw new Error(`Could not read ${filename}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      console.error(`Error importing ${filename}:`, err);
+      addFinding(report, 'invalid-row', filename, 'File could not be read completely', err instanceof Error ? err.message : String(err));
+    }
+  }
+  onProgress?.('parse', files.length, files.length);
+  
+  // Place nodes and boarding areas without coordinates at their parent
+  const stopsById = new Map(records.stops.map(stop => [stop.stopId, stop]));
+  stopsWithoutCoordinates.forEach(stop => {
+    const parent = stopsById.get(stop.parentStation!);
+    if (!parent) {
+      addFinding(report, 'invalid-row', 'stops.txt', 'Stop without valid coordinates', stop.stopId);
+      return;
+    }
+    records.stops.push({ ...stop, latitude: parent.latitude, longitude: parent.longitude });
+  });
+  
+  // Shapes are stored whole, sorted by shape_pt_sequence
+  shapePoints.forEach((points, shapeId) => {
+    points.sort((a, b) => a.sequence - b.sequence);
+    records.shapes.push({
+      feedKey,
+      shapeId,
+      path: points.map(p => p.point),
+      distances: points.map(p => p.distance),
+    });
+  });
+  
+  // feed_info.txt is optional; when present it has a single row
+  const feedInfo = records.files.find(file => file.filename === 'feed_info.txt');
+  if (feedInfo) {
+    forEachCSVRecord(feedInfo.content, record => {
+      metadata.feedVersion = record.get('feed_version') || null;
+      metadata.feedStartDate = record.get('feed_start_date') || null;
+      metadata.feedEndDate = record.get('feed_end_date') || null;
+    });
+  }
+  
+  return records;
+}
+
+/**
+ * Imports a downloaded GTFS ZIP into the cache as one feed version
+ * @returns True if the feed was cached
+ * @throws The abort reason if the signal aborts before the cache is written
+ */
+async function cacheGTFSFeed(zip: JSZip, metadata: FeedMetadata, context: Partial<LoadContext> = {}): Promise<boolean> {
+  const fileNames = Object.keys(zip.files);
+  
+  console.log(`Found ${fileNames.length} files in ZIP for ${metadata.feedKey}`);
+  
+  if (fileNames.length === 0) {
+    console.warn('ZIP file is empty or contains no files');
+    return false;
+  }
+  
+  try {
+    const report = createValidationReport(metadata.feedKey, null, 'import');
+    const records = await parseGTFSFeed(zip, metadata, report, context);
+    report.feedVersion = metadata.feedVersion;
+    validateFeed(report, records);
+    
+    // Past this point the import completes, so the cache never holds half a feed
+    context.signal?.throwIfAborted();
+    await replaceFeed(metadata, records, report);
+    console.log(`Successfully cached GTFS feed ${metadata.feedKey}: ${records.stops.length} stops, ${records.trips.length} trips, ${records.stopTimes.length} stop times`);
+    if (report.errorCount > 0 || report.warningCount > 0) {
+      console.warn(`GTFS feed ${metadata.feedKey} has ${report.errorCount} validation errors and ${report.warningCount} warnings`);
+    }
+    return true;
+  } catch (error) {
+    if (context.signal?.aborted) {
+      throw error;
+    }
+    console.warn(`Failed to import GTFS feed ${metadata.feedKey}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Parses a GTFS hex color such as "FF7800"
+ * @returns RGB color array [r, g, b], or null if blank or malformed
+ */
+function parseHexColor(value: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const rgb = parseInt(match[1], 16);
+  return [(rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff];
+}
+
+/**
+ * Downloads a feed and imports it into the cache unless the cached version is current
+ * @param agency - Agency name
+ * @param category - Optional category
+ * @param previous - Metadata of the cached version, if any, for a conditional request
+ * @param context - Optional abort signal and phase progress callback
+ * @returns Outcome and the metadata of the cached feed
+ * @throws The abort reason if the signal aborts before the cache is written
+ */
+export async function importGTFSFeed(
+  agency: string,
+  category: string | null | undefined,
+  previous: FeedMetadata | null = null,
+  context: Partial<LoadContext> = {}
+): Promise<FeedImportResult> {
+  const result = await downloadGTFSFeed(agency, category, previous, context);
+  
+  if (!result) {
+    return { status: 'failed', metadata: previous };
+  }
+  
+  if (result === 'not-modified' || (previous?.contentHash && previous.contentHash === result.metadata.contentHash)) {
+    if (!previous) {
+      return { status: 'failed', metadata: null };
+    }
+    const metadata = { ...previous, checkedAt: Date.now() };
+    await putFeedMetadata(metadata);
+    return { status: 'unchanged', metadata };
+  }
+  
+  if (!(await cacheGTFSFeed(result.zip, result.metadata, context))) {
+    return { status: 'failed', metadata: previous };
+  }
+  
+  return { status: 'updated', metadata: result.metadata };
+}
+
+/**
+ * Imports a GTFS ZIP loaded from a local file into the cache
+ * The feed replaces any earlier file imported under the same key, and is
+ * never revalidated since there is nothing to download it from
+ * @param agency - Agency name the feed is cached under
+ * @param category - Category the feed is cached under
+ * @param fileName - Name of the ZIP file, kept in the metadata
+ * @param arrayBuffer - Contents of the ZIP file
+ * @returns Outcome and the metadata of the cached feed
+ */
+export async function importGTFSFile(
+  agency: string,
+  category: string | null,
+  fileName: string,
+  arrayBuffer: ArrayBuffer
+): Promise<FeedImportResult> {
+  console.log(`Importing GTFS ZIP ${fileName} (${arrayBuffer.byteLength} bytes)`);
+  const zip = await loadGTFSZip(arrayBuffer);
+  if (!zip) {
+    return { status: 'failed', metadata: null };
+  }
+  
+  // Any ZIP passes the signature check; without stops.txt there is nothing to show
+  if (!Object.keys(zip.files).some(relativePath => relativePath.split('/').pop() === 'stops.txt')) {
+    console.warn(`${fileName} does not contain stops.txt, not a GTFS feed`);
+    return { status: 'failed', metadata: null };
+  }
+  
+  const now = Date.now();
+  const metadata: FeedMetadata = {
+    feedKey: getFeedKey(agency, category),
+    agency,
+    category: category || '',
+    downloadedAt: now,
+    checkedAt: now,
+    etag: null,
+    lastModified: null,
+    contentHash: await hashContent(arrayBuffer),
+    feedVersion: null,
+    feedStartDate: null,
+    feedEndDate: null,
+    fileName,
+  };
+  
+  if (!(await cacheGTFSFeed(zip, metadata))) {
+    return { status: 'failed', metadata: null };
+  }
+  
+  return { status: 'updated', metadata };
+}
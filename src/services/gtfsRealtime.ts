@@ -1,15 +1,39 @@
-import { transit_realtime } from 'gtfs-realtime-bindings';
+import type { transit_realtime } from 'gtfs-realtime-bindings';
+import { createTripUpdatesIndex } from './gtfsRealtimeDecoder';
+import type { DecodedRealtimeFeed } from './gtfsRealtimeDecoder';
+import { callGTFSWorker } from './gtfsWorkerClient';
+
+export {
+  parseVehiclePositions,
+  parseTripUpdates,
+  decodeTripUpdates,
+  parseServiceAlerts,
+  decodeServiceAlerts,
+} from './gtfsRealtimeDecoder';
+
+export type VehicleStopStatus = keyof typeof transit_realtime.VehiclePosition.VehicleStopStatus;
+export type OccupancyStatus = keyof typeof transit_realtime.VehiclePosition.OccupancyStatus;
+export type CongestionLevel = keyof typeof transit_realtime.VehiclePosition.CongestionLevel;
 
 // Type definitions matching BusMap.tsx
 export interface Vehicle {
   id: string;
+  label: string | null;
+  licensePlate: string | null;
   tripId: string | null;
   routeId: string | null;
+  directionId: number | null;
+  startTime: string | null;
   latitude: number;
   longitude: number;
   bearing: number;
   speed: number;
   timestamp: number;
+  currentStopSequence: number | null;
+  stopId: string | null;
+  currentStatus: VehicleStopStatus | null;
+  occupancyStatus: OccupancyStatus | null;
+  congestionLevel: CongestionLevel | null;
 }
 
 export interface Agency {
@@ -17,91 +41,431 @@ export interface Agency {
   category?: string;
 }
 
+export type TripScheduleRelationship = keyof typeof transit_realtime.TripDescriptor.ScheduleRelationship;
+export type StopScheduleRelationship = keyof typeof transit_realtime.TripUpdate.StopTimeUpdate.ScheduleRelationship;
+
+export interface StopTimeEvent {
+  delay: number | null; // Seconds relative to the schedule (positive = late)
+  time: number | null; // Absolute predicted time in POSIX seconds
+  uncertainty: number | null;
+}
+
+export interface StopTimeUpdate {
+  tripId: string;
+  stopId: string | null;
+  stopSequence: number | null;
+  arrival: StopTimeEvent | null;
+  departure: StopTimeEvent | null;
+  scheduleRelationship: StopScheduleRelationship;
+}
+
+export interface TripUpdate {
+  id: string;
+  tripId: string;
+  routeId: string | null;
+  directionId: number | null;
+  startTime: string | null;
+  startDate: string | null;
+  scheduleRelationship: TripScheduleRelationship;
+  vehicleId: string | null;
+  timestamp: number | null;
+  delay: number | null;
+  stopTimeUpdates: StopTimeUpdate[];
+}
+
+export interface TripUpdatesIndex {
+  byTrip: Map<string, TripUpdate>;
+  byStop: Map<string, StopTimeUpdate[]>;
+  cancelledTripIds: Set<string>;
+}
+
+export type AlertCause = keyof typeof transit_realtime.Alert.Cause;
+export type AlertEffect = keyof typeof transit_realtime.Alert.Effect;
+
+export interface Translation {
+  text: string;
+  language: string | null;
+}
+
+export interface AlertActivePeriod {
+  start: number | null; // POSIX seconds, null = since forever
+  end: number | null; // POSIX seconds, null = until further notice
+}
+
+export interface InformedEntity {
+  agencyId: string | null;
+  routeId: string | null;
+  routeType: number | null;
+  directionId: number | null;
+  tripId: string | null;
+  stopId: string | null;
+}
+
+export interface ServiceAlert {
+  id: string;
+  cause: AlertCause;
+  effect: AlertEffect;
+  activePeriods: AlertActivePeriod[];
+  headerText: Translation[];
+  descriptionText: Translation[];
+  url: Translation[];
+  informedEntities: InformedEntity[];
+}
+
+export type RealtimeFeedType = 'vehicle-position' | 'trip-updates' | 'alerts';
+
+// Decoded payload of each feed type
+export interface RealtimeFeedData {
+  'vehicle-position': Vehicle[];
+  'trip-updates': TripUpdatesIndex;
+  'alerts': ServiceAlert[];
+}
+
+export type RealtimeErrorCategory =
+  | 'rate-limited' // HTTP 429
+  | 'not-found' // HTTP 404, usually a feed the agency does not publish
+  | 'server' // HTTP 5xx
+  | 'http' // Any other non-2xx response
+  | 'network' // Request never completed (offline, CORS, DNS)
+  | 'decode'; // Response was not a valid FeedMessage
+
+export interface RealtimeFetchError {
+  category: RealtimeErrorCategory;
+  message: string;
+  httpStatus: number | null;
+}
+
+export interface RealtimeFetchResult<T> {
+  agency: string;
+  category: string | null;
+  status: 'ok' | 'error';
+  data: T;
+  error: RealtimeFetchError | null;
+  httpStatus: number | null;
+  feedTimestamp: number | null; // FeedHeader timestamp in POSIX seconds
+  entityCount: number;
+  fetchedAt: number; // POSIX seconds
+}
+
+export interface MultiAgencyFetchResult<T> {
+  data: T;
+  results: RealtimeFetchResult<T>[];
+  failures: RealtimeFetchResult<T>[];
+}
+
+const GTFS_REALTIME_BASE_URL = 'https://api.data.gov.my/gtfs-realtime';
+
 /**
- * Fetches GTFS Realtime vehicle position data from Malaysia's Open API
- * @param agency - Agency name (e.g., 'prasarana', 'ktmb', 'mybas-kangar')
- * @param category - Optional category for Prasarana (e.g., 'rapid-bus-kl')
- * @returns Promise resolving to array of vehicle position objects
+ * Builds the Malaysia Open API URL for a GTFS Realtime feed
  */
-export async function fetchGTFSRealtime(
-  agency: string = 'prasarana',
-  category: string = 'rapid-bus-kl'
-): Promise<Vehicle[]> {
-  try {
-    let url = `https://api.data.gov.my/gtfs-realtime/vehicle-position/${agency}`;
-    
-    // Add category query parameter for Prasarana
-    if (agency === 'prasarana' && category) {
-      url += `?category=${category}`;
-    }
+function getRealtimeUrl(feedType: RealtimeFeedType, agency: string, category?: string | null): string {
+  let url = `${GTFS_REALTIME_BASE_URL}/${feedType}/${agency}`;
 
+  // Add category query parameter for Prasarana
+  if (agency === 'prasarana' && category) {
+    url += `?category=${category}`;
+  }
+
+  return url;
+}
+
+/**
+ * Fetches one GTFS Realtime feed and decodes it in the GTFS worker, classifying any failure
+ * @param agency - Agency name
+ * @param category - Optional category for Prasarana
+ * @param url - Feed URL
+ * @param feedType - Which feed is fetched, selecting how it is decoded
+ * @param emptyData - Value returned as data when the fetch fails
+ * @returns Promise resolving to the per-agency fetch result
+ */
+async function fetchRealtimeFeed<K extends RealtimeFeedType>(
+  agency: string,
+  category: string | null | undefined,
+  url: string,
+  feedType: K,
+  emptyData: RealtimeFeedData[K]
+): Promise<RealtimeFetchResult<RealtimeFeedData[K]>> {
+  const result: RealtimeFetchResult<RealtimeFeedData[K]> = {
+    agency,
+    category: category || null,
+    status: 'error',
+    data: emptyData,
+    error: null,
+    httpStatus: null,
+    feedTimestamp: null,
+    entityCount: 0,
+    fetchedAt: Date.now() / 1000,
+  };
+
+  let arrayBuffer: ArrayBuffer;
+  try {
     const response = await fetch(url);
-    
+    result.httpStatus = response.status;
+
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      result.error = {
+        category: getHttpErrorCategory(response.status),
+        message: `HTTP error! status: ${response.status}`,
+        httpStatus: response.status,
+      };
+      console.error(`Error fetching GTFS Realtime feed ${url}:`, result.error.message);
+      return result;
     }
 
-    const arrayBuffer = await response.arrayBuffer();
-    const feed = transit_realtime.FeedMessage.decode(new Uint8Array(arrayBuffer));
-
-    // Extract vehicle positions
-    const vehicles: Vehicle[] = [];
-    for (const entity of feed.entity) {
-      if (entity.vehicle) {
-        const vehicle = entity.vehicle;
-        if (vehicle.position) {
-          // Handle protobuf nested objects - they may be accessed differently
-          const vehicleDescriptor = vehicle.vehicle;
-          const vehicleId = (vehicleDescriptor && vehicleDescriptor.id) 
-            ? (vehicleDescriptor.id.id || vehicleDescriptor.id) 
-            : entity.id;
-          
-          const trip = vehicle.trip || {};
-          const tripId = trip.tripId || null;
-          const routeId = trip.routeId || null;
-          
-          const position = vehicle.position;
-          const latitude = position.latitude || 0;
-          const longitude = position.longitude || 0;
-          const bearing = position.bearing || 0;
-          const speed = position.speed || 0;
-          const timestamp = vehicle.timestamp || Math.floor(Date.now() / 1000);
-          
-          // Only add if we have valid coordinates
-          if (latitude !== 0 && longitude !== 0) {
-            vehicles.push({
-              id: vehicleId || entity.id,
-              tripId: tripId as string | null,
-              routeId: routeId as string | null,
-              latitude,
-              longitude,
-              bearing,
-              speed,
-              timestamp,
-            });
-          }
-        }
-      }
-    }
+    arrayBuffer = await response.arrayBuffer();
+  } catch (error) {
+    result.error = {
+      category: 'network',
+      message: error instanceof Error ? error.message : String(error),
+      httpStatus: result.httpStatus,
+    };
+    console.error(`Error fetching GTFS Realtime feed ${url}:`, error);
+    return result;
+  }
 
-    return vehicles;
+  try {
+    // The buffer is transferred to the worker rather than copied
+    const decoded = await callGTFSWorker(
+      { type: 'decode-realtime', feedType, buffer: arrayBuffer },
+      { transfer: [arrayBuffer] }
+    ) as DecodedRealtimeFeed<K>;
+    result.data = decoded.data;
+    result.status = 'ok';
+    result.feedTimestamp = decoded.feedTimestamp;
+    result.entityCount = decoded.entityCount;
   } catch (error) {
-    console.error('Error fetching GTFS Realtime data:', error);
-    return [];
+    result.error = {
+      category: 'decode',
+      message: error instanceof Error ? error.message : String(error),
+      httpStatus: result.httpStatus,
+    };
+    console.error(`Error decoding GTFS Realtime feed ${url}:`, error);
+  }
+
+  return result;
+}
+
+/**
+ * Maps an HTTP status code to an error category
+ */
+function getHttpErrorCategory(status: number): RealtimeErrorCategory {
+  if (status === 429) return 'rate-limited';
+  if (status === 404) return 'not-found';
+  if (status >= 500) return 'server';
+  return 'http';
+}
+
+/**
+ * Describes a fetch error in words suitable for the UI
+ * @param error - Error from a per-agency fetch result
+ */
+export function describeFetchError(error: RealtimeFetchError): string {
+  switch (error.category) {
+    case 'rate-limited':
+      return 'rate limited (HTTP 429)';
+    case 'not-found':
+      return 'feed not available (HTTP 404)';
+    case 'server':
+      return `server error (HTTP ${error.httpStatus})`;
+    case 'http':
+      return `request failed (HTTP ${error.httpStatus})`;
+    case 'network':
+      return 'network error';
+    case 'decode':
+      return 'invalid feed data';
   }
 }
 
+/**
+ * Combines per-agency results, keeping each agency's outcome for reporting
+ * @param results - Per-agency fetch results
+ * @param combine - Merges the successful payloads
+ */
+function combineResults<T>(
+  results: RealtimeFetchResult<T>[],
+  combine: (data: T[]) => T
+): MultiAgencyFetchResult<T> {
+  return {
+    data: combine(results.map(result => result.data)),
+    results,
+    failures: results.filter(result => result.status === 'error'),
+  };
+}
+
+/**
+ * Fetches GTFS Realtime vehicle position data from Malaysia's Open API
+ * @param agency - Agency name (e.g., 'prasarana', 'ktmb', 'mybas-kangar')
+ * @param category - Category, only used by Prasarana (e.g., 'rapid-bus-kl')
+ * @returns Promise resolving to the fetch result with array of vehicle position objects
+ */
+export async function fetchGTFSRealtime(
+  agency: string = 'prasarana',
+  category?: string | null
+): Promise<RealtimeFetchResult<Vehicle[]>> {
+  const url = getRealtimeUrl('vehicle-position', agency, category);
+  return fetchRealtimeFeed(agency, category, url, 'vehicle-position', []);
+}
+
 /**
  * Fetches GTFS Realtime data from multiple agencies
  * @param agencies - Array of {agency, category} objects
- * @returns Promise resolving to combined array of all vehicle positions
+ * @returns Promise resolving to combined vehicle positions plus per-agency results
  */
-export async function fetchMultipleAgencies(agencies: Agency[]): Promise<Vehicle[]> {
+export async function fetchMultipleAgencies(agencies: Agency[]): Promise<MultiAgencyFetchResult<Vehicle[]>> {
   const promises = agencies.map(({ agency, category }) => 
     fetchGTFSRealtime(agency, category)
   );
   
   const results = await Promise.all(promises);
-  return results.flat();
+  return combineResults(results, data => data.flat());
+}
+
+/**
+ * Fetches GTFS Realtime trip updates (predicted arrivals and departures)
+ * @param agency - Agency name (e.g., 'prasarana', 'ktmb', 'mybas-kangar')
+ * @param category - Category, only used by Prasarana (e.g., 'rapid-bus-kl')
+ * @param url - Optional feed URL for producers other than the Malaysia Open API
+ * @returns Promise resolving to the fetch result with trip updates indexed by trip and stop
+ */
+export async function fetchTripUpdates(
+  agency: string = 'prasarana',
+  category?: string | null,
+  url: string = getRealtimeUrl('trip-updates', agency, category)
+): Promise<RealtimeFetchResult<TripUpdatesIndex>> {
+  return fetchRealtimeFeed(agency, category, url, 'trip-updates', createTripUpdatesIndex());
+}
+
+/**
+ * Fetches trip updates from multiple agencies and merges them into one index
+ * @param agencies - Array of {agency, category} objects
+ * @returns Promise resolving to combined trip updates index plus per-agency results
+ */
+export async function fetchMultipleAgencyTripUpdates(
+  agencies: Agency[]
+): Promise<MultiAgencyFetchResult<TripUpdatesIndex>> {
+  const promises = agencies.map(({ agency, category }) =>
+    fetchTripUpdates(agency, category)
+  );
+
+  const results = await Promise.all(promises);
+  return combineResults(results, mergeTripUpdates);
+}
+
+/**
+ * Merges trip update indexes from several agencies into one
+ * @param indexes - Per-agency trip update indexes
+ * @returns Combined index
+ */
+export function mergeTripUpdates(indexes: TripUpdatesIndex[]): TripUpdatesIndex {
+  const merged = createTripUpdatesIndex();
+  for (const index of indexes) {
+    index.byTrip.forEach((update, tripId) => merged.byTrip.set(tripId, update));
+    index.cancelledTripIds.forEach(tripId => merged.cancelledTripIds.add(tripId));
+    index.byStop.forEach((updates, stopId) => {
+      merged.byStop.set(stopId, [...(merged.byStop.get(stopId) || []), ...updates]);
+    });
+  }
+  return merged;
+}
+
+/**
+ * Resolves the realtime prediction for a stop on a trip
+ * Falls back to the closest preceding stop time update, since GTFS Realtime
+ * producers only send updates where the delay changes
+ * @param tripUpdate - Trip update for the trip
+ * @param stopSequence - stop_sequence of the stop in the static schedule
+ * @param stopId - stop_id of the stop, used when the producer omits sequences
+ * @returns The matching or propagated stop time update, or null if none applies
+ */
+export function getStopTimePrediction(
+  tripUpdate: TripUpdate,
+  stopSequence: number,
+  stopId?: string
+): StopTimeUpdate | null {
+  let propagated: StopTimeUpdate | null = null;
+
+  for (const update of tripUpdate.stopTimeUpdates) {
+    const matchesSequence = update.stopSequence !== null && update.stopSequence === stopSequence;
+    const matchesStop = update.stopSequence === null && stopId !== undefined && update.stopId === stopId;
+    if (matchesSequence || matchesStop) {
+      return update;
+    }
+    if (update.stopSequence !== null && update.stopSequence < stopSequence) {
+      propagated = update;
+    }
+  }
+
+  if (!propagated || propagated.scheduleRelationship !== 'SCHEDULED') {
+    return null;
+  }
+
+  // Only the delay carries over to later stops, not the absolute time
+  const source = propagated.departure || propagated.arrival;
+  const event: StopTimeEvent | null = source ? { delay: source.delay, time: null, uncertainty: null } : null;
+
+  return {
+    ...propagated,
+    stopId: stopId ?? null,
+    stopSequence,
+    arrival: event,
+    departure: event,
+  };
+}
+
+/**
+ * Fetches GTFS Realtime service alerts (detours, closures, disruptions)
+ * @param agency - Agency name (e.g., 'prasarana', 'ktmb', 'mybas-kangar')
+ * @param category - Category, only used by Prasarana (e.g., 'rapid-bus-kl')
+ * @param url - Optional feed URL for producers other than the Malaysia Open API
+ * @returns Promise resolving to the fetch result with array of service alerts
+ */
+export async function fetchServiceAlerts(
+  agency: string = 'prasarana',
+  category?: string | null,
+  url: string = getRealtimeUrl('alerts', agency, category)
+): Promise<RealtimeFetchResult<ServiceAlert[]>> {
+  return fetchRealtimeFeed(agency, category, url, 'alerts', []);
+}
+
+/**
+ * Fetches service alerts from multiple agencies
+ * @param agencies - Array of {agency, category} objects
+ * @returns Promise resolving to combined service alerts plus per-agency results
+ */
+export async function fetchMultipleAgencyAlerts(agencies: Agency[]): Promise<MultiAgencyFetchResult<ServiceAlert[]>> {
+  const promises = agencies.map(({ agency, category }) =>
+    fetchServiceAlerts(agency, category)
+  );
+
+  const results = await Promise.all(promises);
+  return combineResults(results, data => data.flat());
+}
+
+/**
+ * Checks whether an alert is in effect at the given time
+ * An alert without active periods is active for as long as it is in the feed
+ * @param alert - Service alert
+ * @param now - POSIX seconds (defaults to the current time)
+ */
+export function isAlertActive(alert: ServiceAlert, now: number = Date.now() / 1000): boolean {
+  if (alert.activePeriods.length === 0) {
+    return true;
+  }
+
+  return alert.activePeriods.some(period =>
+    (period.start === null || period.start <= now) &&
+    (period.end === null || now < period.end)
+  );
 }
 
+/**
+ * Picks the best translation for display
+ * Prefers the requested language, then untagged text, then whatever is first
+ * @param translations - Translations from a TranslatedString
+ * @param language - Preferred BCP-47 language code (e.g., 'en', 'ms')
+ */
+export function getTranslatedText(translations: Translation[], language: string = 'en'): string {
+  const preferred = translations.find(t => t.language?.toLowerCase().startsWith(language.toLowerCase()));
+  const untagged = translations.find(t => !t.language);
+  return (preferred || untagged || translations[0])?.text || '';
+}
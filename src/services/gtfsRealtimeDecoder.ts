@@ -0,0 +1,311 @@
+/**
+ * GTFS Realtime protobuf decoding
+ * Turns FeedMessage payloads into the app's vehicle, trip update and alert
+ * types. Kept free of fetching and DOM access so it can run in the GTFS worker.
+ */
+
+import { transit_realtime } from 'gtfs-realtime-bindings';
+import type {
+  Vehicle,
+  VehicleStopStatus,
+  OccupancyStatus,
+  CongestionLevel,
+  StopTimeEvent,
+  StopTimeUpdate,
+  TripUpdate,
+  TripUpdatesIndex,
+  TripScheduleRelationship,
+  StopScheduleRelationship,
+  Translation,
+  ServiceAlert,
+  AlertCause,
+  AlertEffect,
+  RealtimeFeedType,
+  RealtimeFeedData,
+} from './gtfsRealtime';
+
+export interface DecodedRealtimeFeed<K extends RealtimeFeedType> {
+  data: RealtimeFeedData[K];
+  feedTimestamp: number | null; // FeedHeader timestamp in POSIX seconds
+  entityCount: number;
+}
+
+/**
+ * Converts a protobuf int64 (number or Long) to a plain number
+ */
+function toNumber(value: number | { toNumber(): number } | null | undefined): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return typeof value === 'number' ? value : value.toNumber();
+}
+
+/**
+ * Checks whether an optional protobuf field was present on the wire
+ * (decoded messages expose defaults through the prototype)
+ */
+function hasField(message: object, field: string): boolean {
+  return Object.prototype.hasOwnProperty.call(message, field);
+}
+
+/**
+ * Extracts vehicle positions from a decoded feed
+ * @param feed - Decoded GTFS Realtime FeedMessage
+ * @returns Array of vehicle position objects with valid coordinates
+ */
+export function parseVehiclePositions(feed: transit_realtime.IFeedMessage): Vehicle[] {
+  // Extract vehicle positions
+  const vehicles: Vehicle[] = [];
+  for (const entity of feed.entity || []) {
+    if (entity.vehicle) {
+      const vehicle = entity.vehicle;
+      if (vehicle.position) {
+        const vehicleDescriptor = vehicle.vehicle || {};
+        const vehicleId = vehicleDescriptor.id || entity.id;
+        
+        const trip = vehicle.trip || {};
+        const tripId = trip.tripId || null;
+        const routeId = trip.routeId || null;
+        
+        const position = vehicle.position;
+        const latitude = position.latitude || 0;
+        const longitude = position.longitude || 0;
+        const bearing = position.bearing || 0;
+        const speed = position.speed || 0;
+        const timestamp = toNumber(vehicle.timestamp) || Math.floor(Date.now() / 1000);
+        
+        // Enum fields are only meaningful when the producer actually set them
+        const { VehicleStopStatus, OccupancyStatus, CongestionLevel } = transit_realtime.VehiclePosition;
+        const currentStatus = hasField(vehicle, 'currentStatus')
+          ? VehicleStopStatus[vehicle.currentStatus!] as VehicleStopStatus
+          : null;
+        const occupancyStatus = hasField(vehicle, 'occupancyStatus')
+          ? OccupancyStatus[vehicle.occupancyStatus!] as OccupancyStatus
+          : null;
+        const congestionLevel = hasField(vehicle, 'congestionLevel')
+          ? CongestionLevel[vehicle.congestionLevel!] as CongestionLevel
+          : null;
+        
+        // Only add if we have valid coordinates
+        if (latitude !== 0 && longitude !== 0) {
+          vehicles.push({
+            id: vehicleId,
+            label: vehicleDescriptor.label || null,
+            licensePlate: vehicleDescriptor.licensePlate || null,
+            tripId,
+            routeId,
+            directionId: hasField(trip, 'directionId') ? trip.directionId ?? null : null,
+            startTime: trip.startTime || null,
+            latitude,
+            longitude,
+            bearing,
+            speed,
+            timestamp,
+            currentStopSequence: hasField(vehicle, 'currentStopSequence') ? vehicle.currentStopSequence ?? null : null,
+            stopId: vehicle.stopId || null,
+            currentStatus,
+            occupancyStatus,
+            congestionLevel,
+          });
+        }
+      }
+    }
+  }
+
+  return vehicles;
+}
+
+/**
+ * Converts a decoded StopTimeEvent, keeping only the fields the producer set
+ */
+function parseStopTimeEvent(
+  event: transit_realtime.TripUpdate.IStopTimeEvent | null | undefined
+): StopTimeEvent | null {
+  if (!event) {
+    return null;
+  }
+
+  return {
+    delay: hasField(event, 'delay') ? event.delay ?? null : null,
+    time: hasField(event, 'time') ? toNumber(event.time) : null,
+    uncertainty: hasField(event, 'uncertainty') ? event.uncertainty ?? null : null,
+  };
+}
+
+/**
+ * Creates an empty trip updates index
+ */
+export function createTripUpdatesIndex(): TripUpdatesIndex {
+  return {
+    byTrip: new Map(),
+    byStop: new Map(),
+    cancelledTripIds: new Set(),
+  };
+}
+
+/**
+ * Extracts trip updates from a decoded feed and indexes them by trip and stop
+ * @param feed - Decoded GTFS Realtime FeedMessage
+ * @returns Trip updates keyed by trip_id, stop time updates keyed by stop_id,
+ *          and the set of cancelled trip IDs
+ */
+export function parseTripUpdates(feed: transit_realtime.IFeedMessage): TripUpdatesIndex {
+  const index = createTripUpdatesIndex();
+
+  for (const entity of feed.entity || []) {
+    const tripUpdate = entity.tripUpdate;
+    if (!tripUpdate || entity.isDeleted) {
+      continue;
+    }
+
+    const trip = tripUpdate.trip || {};
+    const tripId = trip.tripId;
+    if (!tripId) {
+      // Without a trip_id we cannot match the update against the static schedule
+      continue;
+    }
+
+    const scheduleRelationship = transit_realtime.TripDescriptor.ScheduleRelationship[
+      trip.scheduleRelationship ?? transit_realtime.TripDescriptor.ScheduleRelationship.SCHEDULED
+    ] as TripScheduleRelationship;
+
+    const stopTimeUpdates: StopTimeUpdate[] = (tripUpdate.stopTimeUpdate || []).map(update => ({
+      tripId,
+      stopId: update.stopId || null,
+      stopSequence: hasField(update, 'stopSequence') ? update.stopSequence ?? null : null,
+      arrival: parseStopTimeEvent(update.arrival),
+      departure: parseStopTimeEvent(update.departure),
+      scheduleRelationship: transit_realtime.TripUpdate.StopTimeUpdate.ScheduleRelationship[
+        update.scheduleRelationship ?? transit_realtime.TripUpdate.StopTimeUpdate.ScheduleRelationship.SCHEDULED
+      ] as StopScheduleRelationship,
+    }));
+
+    // Keep stop time updates in trip order so delays can be propagated downstream
+    stopTimeUpdates.sort((a, b) => (a.stopSequence ?? 0) - (b.stopSequence ?? 0));
+
+    const parsed: TripUpdate = {
+      id: entity.id,
+      tripId,
+      routeId: trip.routeId || null,
+      directionId: hasField(trip, 'directionId') ? trip.directionId ?? null : null,
+      startTime: trip.startTime || null,
+      startDate: trip.startDate || null,
+      scheduleRelationship,
+      vehicleId: tripUpdate.vehicle?.id || null,
+      timestamp: hasField(tripUpdate, 'timestamp') ? toNumber(tripUpdate.timestamp) : null,
+      delay: hasField(tripUpdate, 'delay') ? tripUpdate.delay ?? null : null,
+      stopTimeUpdates,
+    };
+
+    index.byTrip.set(tripId, parsed);
+
+    if (scheduleRelationship === 'CANCELED') {
+      index.cancelledTripIds.add(tripId);
+    }
+
+    for (const update of stopTimeUpdates) {
+      if (!update.stopId) continue;
+      if (!index.byStop.has(update.stopId)) {
+        index.byStop.set(update.stopId, []);
+      }
+      index.byStop.get(update.stopId)!.push(update);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Decodes a raw GTFS Realtime TripUpdates payload (e.g. a recorded .pb file)
+ * @param buffer - Protobuf-encoded FeedMessage
+ * @returns Trip updates indexed by trip and stop
+ */
+export function decodeTripUpdates(buffer: ArrayBuffer | Uint8Array): TripUpdatesIndex {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  return parseTripUpdates(transit_realtime.FeedMessage.decode(bytes));
+}
+
+/**
+ * Converts a decoded TranslatedString into a list of translations
+ */
+function parseTranslatedString(value: transit_realtime.ITranslatedString | null | undefined): Translation[] {
+  return (value?.translation || []).map(translation => ({
+    text: translation.text,
+    language: translation.language || null,
+  }));
+}
+
+/**
+ * Extracts service alerts from a decoded feed
+ * @param feed - Decoded GTFS Realtime FeedMessage
+ * @returns Array of service alerts
+ */
+export function parseServiceAlerts(feed: transit_realtime.IFeedMessage): ServiceAlert[] {
+  const alerts: ServiceAlert[] = [];
+
+  for (const entity of feed.entity || []) {
+    const alert = entity.alert;
+    if (!alert || entity.isDeleted) {
+      continue;
+    }
+
+    alerts.push({
+      id: entity.id,
+      cause: transit_realtime.Alert.Cause[alert.cause ?? transit_realtime.Alert.Cause.UNKNOWN_CAUSE] as AlertCause,
+      effect: transit_realtime.Alert.Effect[alert.effect ?? transit_realtime.Alert.Effect.UNKNOWN_EFFECT] as AlertEffect,
+      activePeriods: (alert.activePeriod || []).map(period => ({
+        start: hasField(period, 'start') ? toNumber(period.start) : null,
+        end: hasField(period, 'end') ? toNumber(period.end) : null,
+      })),
+      headerText: parseTranslatedString(alert.headerText),
+      descriptionText: parseTranslatedString(alert.descriptionText),
+      url: parseTranslatedString(alert.url),
+      informedEntities: (alert.informedEntity || []).map(selector => ({
+        agencyId: selector.agencyId || null,
+        routeId: selector.routeId || selector.trip?.routeId || null,
+        routeType: hasField(selector, 'routeType') ? selector.routeType ?? null : null,
+        directionId: hasField(selector, 'directionId') ? selector.directionId ?? null : null,
+        tripId: selector.trip?.tripId || null,
+        stopId: selector.stopId || null,
+      })),
+    });
+  }
+
+  return alerts;
+}
+
+/**
+ * Decodes a raw GTFS Realtime Alerts payload (e.g. a recorded .pb file)
+ * @param buffer - Protobuf-encoded FeedMessage
+ * @returns Array of service alerts
+ */
+export function decodeServiceAlerts(buffer: ArrayBuffer | Uint8Array): ServiceAlert[] {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  return parseServiceAlerts(transit_realtime.FeedMessage.decode(bytes));
+}
+
+/**
+ * Decodes a GTFS Realtime payload of the given feed type
+ * @param feedType - Which feed the payload came from
+ * @param buffer - Protobuf-encoded FeedMessage
+ * @returns The typed payload plus header timestamp and entity count
+ * @throws If the payload is not a valid FeedMessage
+ */
+export function decodeRealtimeFeed<K extends RealtimeFeedType>(
+  feedType: K,
+  buffer: ArrayBuffer | Uint8Array
+): DecodedRealtimeFeed<K> {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const feed = transit_realtime.FeedMessage.decode(bytes);
+  const parsers: { [T in RealtimeFeedType]: (feed: transit_realtime.IFeedMessage) => RealtimeFeedData[T] } = {
+    'vehicle-position': parseVehiclePositions,
+    'trip-updates': parseTripUpdates,
+    'alerts': parseServiceAlerts,
+  };
+
+  return {
+    data: parsers[feedType](feed),
+    feedTimestamp: toNumber(feed.header?.timestamp) || null,
+    entityCount: feed.entity.length,
+  };
+}
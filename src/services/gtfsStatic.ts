@@ -1,18 +1,73 @@
+import { forEachCSVRecord } from './csvParser';
+import type { CSVRecord } from './csvParser';
+import {
+  getFeedKey,
+  getFeedMetadata,
+  deleteFeed,
+  getFeedFile,
+  getFeedStops,
+  getFeedRoutes,
+  getValidationReport,
+  listFeedMetadata,
+} from './gtfsDatabase';
+import type { FeedMetadata } from './gtfsDatabase';
+import { getServiceDate } from './gtfsTime';
+import type { PackedRoutes } from './routeCompiler';
+import type { ValidationReport } from './feedValidator';
+import { callGTFSWorker } from './gtfsWorkerClient';
+import type { LoadContext, PhaseProgressCallback } from './loadPipeline';
+import { createServiceCalendar, addCalendarRecord, addCalendarDateRecord } from './serviceCalendar';
+import type { ServiceCalendar } from './serviceCalendar';
+
+export { getFeedKey };
+
 // Type definitions matching BusMap.tsx
 export interface Stop {
   id: string;
+  feedKey: string; // Feed the stop belongs to, see getFeedKey
   name: string;
   latitude: number;
   longitude: number;
   code?: string;
   routeId?: string | null; // Route ID from stops.txt (for train stations)
+  locationType: LocationType;
+  parentStationId: string | null; // Station a platform or entrance belongs to, or platform of a boarding area
+  platformCode?: string; // e.g. "1" or "B"
+  wheelchairBoarding: boolean | null; // null when unknown or inherited from the parent station
+}
+
+// GTFS location_type, by its numeric value
+export type LocationType = 'stop' | 'station' | 'entrance' | 'node' | 'boarding-area';
+const LOCATION_TYPES: LocationType[] = ['stop', 'station', 'entrance', 'node', 'boarding-area'];
+
+export interface StopTime {
+  arrival: number | null; // Seconds since the start of the service day, null for untimed stops
+  departure: number | null;
 }
 
 export interface Route {
-  id: string;
+  id: string; // trip_id
+  patternId: string; // Trips sharing a route, direction and stop sequence share a pattern and its path
   path: [number, number][];
+  // Scheduled time at each path vertex, in seconds since the start of the service day
+  // (add getServiceDayStart() from gtfsTime for POSIX time); empty when the trip has no times
   timestamps: number[];
   routeId: string | null;
+  serviceId: string | null; // Service calendar the trip runs on
+  feedKey: string; // Feed the trip came from, see getFeedKey
+  stopIds: string[]; // Stops served by the trip, in stop_sequence order
+  stopTimes: StopTime[]; // Scheduled times for each entry in stopIds
+  shapeId: string | null; // shapes.txt shape the path came from, null when built from stops
+}
+
+export interface RouteInfo {
+  id: string; // route_id
+  agencyId: string | null;
+  shortName: string | null; // e.g. "T789"
+  longName: string | null;
+  type: number | null; // GTFS route_type (3 = bus)
+  color: [number, number, number] | null; // route_color, null when not published
+  textColor: [number, number, number] | null; // route_text_color
 }
 
 export interface Agency {
@@ -20,296 +75,294 @@ export interface Agency {
   category?: string;
 }
 
-interface CSVRow {
-  [key: string]: string;
+// Everything the map needs from one feed, see loadAgencyStaticData
+export interface AgencyStaticData {
+  stops: Stop[];
+  routes: Route[];
+  routeInfo: RouteInfo[];
+  calendar: ServiceCalendar;
 }
 
-interface CachedFile {
-  key: string;
-  agency: string;
-  category: string;
-  filename: string;
-  content: string;
-  timestamp: number;
+// A feed loaded from a local ZIP file rather than downloaded
+export interface LocalFeed extends Agency {
+  fileName: string;
+  feedVersion: string | null; // From feed_info.txt
 }
 
-interface TripInfo {
-  tripId: string;
-  routeId: string | null;
-}
+// Agency that local feeds are cached under; each file gets its own category
+export const LOCAL_FEED_AGENCY = 'local';
+
+// Check cached feeds for a new version this often
+const REVALIDATE_INTERVAL = 6 * 60 * 60 * 1000;
+
+// Feeds already revalidated this page load
+const revalidatedFeeds = new Set<string>();
+
+const feedUpdateListeners = new Set<(feedKey: string) => void>();
+
+// In-flight feed imports, so parallel loads for one feed share a single download
+const pendingImports = new Map<string, PendingImport>();
 
-interface StopSequence {
-  stopId: string;
-  sequence: number;
+// A feed download shared by every caller waiting for it
+interface PendingImport {
+  promise: Promise<boolean>;
+  controller: AbortController; // Aborted once every caller has given up
+  waiting: number; // Callers still waiting for the result
+  progressListeners: Set<PhaseProgressCallback>;
 }
 
-// Cache management using IndexedDB
-const DB_NAME = 'gtfs_cache';
-const DB_VERSION = 1;
-const STORE_NAME = 'gtfs_files';
+// Session cache of Directions paths per pattern key
+// Versioned so per-trip routes cached before patterns existed are not reused
+const ROUTE_PATHS_CACHE_KEY = 'google_routes_cache_v5';
 
 /**
- * Initialize IndexedDB for caching GTFS files
+ * Download a GTFS ZIP and import it into the cache
+ * @param context - Optional abort signal and download, unzip and parse progress callback
+ * @returns True if the feed was downloaded and cached
  */
-async function initDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-    
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
-      }
-    };
-  });
+async function downloadAndCacheGTFSFiles(
+  agency: string,
+  category: string | null | undefined,
+  { signal, onProgress }: Partial<LoadContext> = {}
+): Promise<boolean> {
+  // Download, extraction and parsing all happen in the worker
+  const result = await callGTFSWorker(
+    { type: 'import-feed', agency, category: category || null, previous: null },
+    { signal, onProgress: onProgress && ((current, total, phase) => onProgress(phase ?? 'download', current, total)) }
+  );
+  return result.status === 'updated';
 }
 
 /**
- * Generate cache key for agency/category/filename
+ * Checks whether a cached feed should be revalidated against the server
  */
-function getCacheKey(agency: string, category: string | null | undefined, filename: string): string {
-  const categoryPart = category ? `/${category}` : '';
-  return `${agency}${categoryPart}/${filename}`;
+function isFeedStale(metadata: FeedMetadata): boolean {
+  if (metadata.feedEndDate && metadata.feedEndDate < getServiceDate()) {
+    return true; // The cached timetable has expired
+  }
+  return Date.now() - metadata.checkedAt > REVALIDATE_INTERVAL;
 }
 
 /**
- * Store a GTFS file in cache
+ * Revalidates a cached feed and replaces it if the server has a new version
+ * @param agency - Agency name
+ * @param category - Optional category
+ * @returns 'updated' if a new version was cached, 'unchanged' if the cache is current, 'failed' otherwise
  */
-async function storeFileInCache(
+export async function revalidateGTFSFeed(
   agency: string,
-  category: string | null | undefined,
-  filename: string,
-  content: string
-): Promise<void> {
-  try {
-    const db = await initDB();
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    
-    const key = getCacheKey(agency, category, filename);
-    await store.put({
-      key,
-      agency,
-      category: category || '',
-      filename,
-      content,
-      timestamp: Date.now(),
-    });
-  } catch (error) {
-    console.warn('Failed to store file in cache:', error);
+  category: string | null | undefined
+): Promise<'updated' | 'unchanged' | 'failed'> {
+  const feedKey = getFeedKey(agency, category);
+  const previous = await getFeedMetadata(feedKey);
+  const { status, metadata } = await callGTFSWorker({ type: 'import-feed', agency, category: category || null, previous });
+  
+  if (status === 'unchanged') {
+    console.log(`GTFS feed ${feedKey} is up to date`);
+  } else if (status === 'updated') {
+    console.log(`GTFS feed ${feedKey} updated${metadata?.feedVersion ? ` to version ${metadata.feedVersion}` : ''}`);
+    feedUpdateListeners.forEach(listener => listener(feedKey));
   }
+  
+  return status;
 }
 
 /**
- * Retrieve a GTFS file from cache
+ * Revalidates a cached feed in the background if it is stale
+ * Runs at most once per feed per page load
  */
-async function getFileFromCache(
-  agency: string,
-  category: string | null | undefined,
-  filename: string
-): Promise<string | null> {
-  try {
-    const db = await initDB();
-    const transaction = db.transaction([STORE_NAME], 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-    
-    const key = getCacheKey(agency, category, filename);
-    const request = store.get(key);
-    
-    return new Promise((resolve, reject) => {
-      request.onsuccess = () => {
-        const result = request.result as CachedFile | undefined;
-        if (result && result.content) {
-          resolve(result.content);
-        } else {
-          resolve(null);
-        }
-      };
-      request.onerror = () => reject(request.error);
-    });
-  } catch (error) {
-    console.warn('Failed to get file from cache:', error);
-    return null;
+function scheduleRevalidation(agency: string, category: string | null | undefined, metadata: FeedMetadata): void {
+  const feedKey = getFeedKey(agency, category);
+  if (agency === LOCAL_FEED_AGENCY || revalidatedFeeds.has(feedKey)) {
+    return;
+  }
+  revalidatedFeeds.add(feedKey);
+  
+  if (!isFeedStale(metadata)) {
+    return;
   }
+  
+  revalidateGTFSFeed(agency, category).catch(error => {
+    console.warn(`Failed to revalidate GTFS feed ${feedKey}:`, error);
+  });
 }
 
 /**
- * Download and cache all GTFS files from ZIP
- * Always attempts to process the response as a ZIP file regardless of content-type header
+ * Subscribes to background feed updates
+ * @param listener - Called with the feed key (see getFeedKey) after a new feed version is cached
+ * @returns Function that removes the listener
  */
-async function downloadAndCacheGTFSFiles(
-  agency: string,
-  category: string | null | undefined
-): Promise<boolean> {
-  try {
-    let url = `https://api.data.gov.my/gtfs-static/${agency}`;
-    
-    if (agency === 'prasarana' && category) {
-      url += `?category=${category}`;
-    }
-
-    console.log(`Downloading GTFS ZIP from: ${url}`);
-    const response = await fetch(url);
-    
-    console.log('Response Status:', response.status, response.statusText);
-    console.log('Response URL:', response.url);
-    console.log('Content-Type:', response.headers.get('content-type') || '(not set)');
-    
-    if (!response.ok) {
-      console.warn(`Failed to fetch GTFS static data from ${url}: ${response.status} ${response.statusText}`);
-      return false;
-    }
+export function subscribeToGTFSFeedUpdates(listener: (feedKey: string) => void): () => void {
+  feedUpdateListeners.add(listener);
+  return () => {
+    feedUpdateListeners.delete(listener);
+  };
+}
 
-    // Download the response as array buffer (always try as ZIP)
-    const arrayBuffer = await response.arrayBuffer();
-    console.log('Downloaded file size:', arrayBuffer.byteLength, 'bytes');
-    
-    // Check if it looks like a ZIP file by checking the magic bytes
-    // ZIP files start with PK (0x50 0x4B) - this is the ZIP file signature
-    const view = new Uint8Array(arrayBuffer);
-    const isZip = view.length >= 2 && view[0] === 0x50 && view[1] === 0x4B;
-    
-    if (!isZip) {
-      console.warn('File does not appear to be a ZIP file (missing PK header)');
-      console.log('First 10 bytes:', Array.from(view.slice(0, 10)).map(b => '0x' + b.toString(16).padStart(2, '0')).join(' '));
-      // Try to read as text to see what we got
-      try {
-        const text = new TextDecoder().decode(view.slice(0, 200));
-        console.log('First 200 chars as text:', text);
-      } catch (e) {
-        // Ignore text decode errors
+/**
+ * Waits for a shared feed download on behalf of one caller
+ * The caller's signal only ends its own wait; the download itself is aborted
+ * when the last waiting caller gives up, and the next caller starts afresh
+ * @param feedKey - Key the download is registered under in pendingImports
+ * @param pending - The shared download
+ * @param context - The caller's optional abort signal and progress callback
+ * @returns True if the feed was downloaded and cached
+ * @throws The caller's abort reason if its signal aborts first
+ */
+function waitForPendingImport(
+  feedKey: string,
+  pending: PendingImport,
+  { signal, onProgress }: Partial<LoadContext>
+): Promise<boolean> {
+  const listener: PhaseProgressCallback | null = onProgress
+    ? (phase, current, total) => onProgress(phase, current, total)
+    : null;
+  pending.waiting++;
+  if (listener) {
+    pending.progressListeners.add(listener);
+  }
+  
+  return new Promise((resolve, reject) => {
+    let waiting = true;
+    const stopWaiting = () => {
+      if (!waiting) {
+        return false;
       }
-      return false;
-    }
-    
-    console.log('File appears to be a valid ZIP file, processing...');
+      waiting = false;
+      pending.waiting--;
+      if (listener) {
+        pending.progressListeners.delete(listener);
+      }
+      signal?.removeEventListener('abort', onAbort);
+      return true;
+    };
     
-    try {
-      const JSZip = (await import('jszip')).default;
-      const zip = await JSZip.loadAsync(arrayBuffer);
-      
-      // Extract and cache all files from the ZIP
-      const filePromises: Promise<void | null>[] = [];
-      const fileNames = Object.keys(zip.files);
-      
-      console.log(`Found ${fileNames.length} files in ZIP for ${agency}${category ? `/${category}` : ''}`);
-      
-      if (fileNames.length === 0) {
-        console.warn('ZIP file is empty or contains no files');
-        return false;
+    const onAbort = () => {
+      if (!stopWaiting()) {
+        return;
       }
-      
-      for (const relativePath of fileNames) {
-        const file = zip.files[relativePath];
-        if (file && !file.dir) {
-          const filename = relativePath.split('/').pop() || relativePath; // Get just the filename
-          console.log(`Extracting and caching file: ${filename}`);
-          filePromises.push(
-            file.async('string').then(content => {
-              console.log(`Stored ${filename} in cache (${content.length} chars)`);
-              return storeFileInCache(agency, category, filename, content);
-            }).catch(err => {
-              console.error(`Error caching ${filename}:`, err);
-              return null;
-            })
-          );
+      if (pending.waiting === 0) {
+        if (pendingImports.get(feedKey) === pending) {
+          pendingImports.delete(feedKey);
         }
+        pending.controller.abort();
       }
-      
-      if (filePromises.length === 0) {
-        console.warn('No files found in ZIP to cache (all entries are directories)');
-        return false;
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    
+    pending.promise.then(
+      result => {
+        if (stopWaiting()) {
+          resolve(result);
+        }
+      },
+      error => {
+        if (stopWaiting()) {
+          reject(error);
+        }
       }
-      
-      await Promise.all(filePromises);
-      console.log(`Successfully cached ${filePromises.length} GTFS files for ${agency}${category ? `/${category}` : ''}`);
+    );
+  });
+}
+
+/**
+ * Makes sure a feed is in the cache, downloading and importing it if not
+ * Parallel calls for one feed share a single download, which reports progress
+ * to every caller and keeps running until all of them have given up; cached
+ * feeds are revalidated in the background
+ * @param context - Optional abort signal, which cancels only this caller's wait, and progress callback
+ * @returns True if the feed's records are available
+ * @throws The abort reason if the signal aborts
+ */
+async function ensureFeedCached(
+  agency: string,
+  category: string | null | undefined,
+  context: Partial<LoadContext> = {}
+): Promise<boolean> {
+  const feedKey = getFeedKey(agency, category);
+  
+  try {
+    const metadata = await getFeedMetadata(feedKey);
+    if (metadata) {
+      scheduleRevalidation(agency, category, metadata);
       return true;
-    } catch (zipError) {
-      console.error('Error processing ZIP file:', zipError);
-      if (zipError instanceof Error) {
-        console.error('ZIP error details:', zipError.message, zipError.stack);
-      }
-      return false;
     }
   } catch (error) {
-    console.error('Error downloading and caching GTFS files:', error);
-    if (error instanceof Error) {
-      console.error('Error details:', error.message, error.stack);
-    }
+    console.warn('Failed to read feed metadata from cache:', error);
+  }
+  
+  // Local feeds only exist in the cache
+  if (agency === LOCAL_FEED_AGENCY) {
     return false;
   }
+  
+  context.signal?.throwIfAborted();
+  let pending = pendingImports.get(feedKey);
+  if (!pending) {
+    console.log(`GTFS feed ${feedKey} not in cache, downloading`);
+    const controller = new AbortController();
+    const progressListeners = new Set<PhaseProgressCallback>();
+    const download = downloadAndCacheGTFSFiles(agency, category, {
+      signal: controller.signal,
+      onProgress: (phase, current, total) => {
+        progressListeners.forEach(listener => listener(phase, current, total));
+      },
+    });
+    const started: PendingImport = {
+      promise: download.finally(() => {
+        if (pendingImports.get(feedKey) === started) {
+          pendingImports.delete(feedKey);
+        }
+      }),
+      controller,
+      waiting: 0,
+      progressListeners,
+    };
+    pendingImports.set(feedKey, started);
+    pending = started;
+  }
+  
+  return await waitForPendingImport(feedKey, pending, context);
 }
 
 /**
- * Load a GTFS file from cache or download if not cached
+ * Load a GTFS file without a normalized store (e.g. calendar.txt) from cache, downloading the feed if needed
  */
 async function loadGTFSFile(
   agency: string,
   category: string | null | undefined,
   filename: string
 ): Promise<string | null> {
-  // Try cache first
-  let content = await getFileFromCache(agency, category, filename);
-  
-  if (content) {
-    return content;
-  }
-  
-  // If not in cache, download and cache all files
-  console.log(`File ${filename} not in cache, downloading GTFS files for ${agency}${category ? `/${category}` : ''}`);
-  const success = await downloadAndCacheGTFSFiles(agency, category);
-  
-  if (success) {
-    // Try cache again after download
-    content = await getFileFromCache(agency, category, filename);
-    return content;
+  if (!(await ensureFeedCached(agency, category))) {
+    return null;
   }
   
-  return null;
+  return await getFeedFile(getFeedKey(agency, category), filename);
 }
 
 /**
- * Parses CSV text into array of objects
+ * Parses a GTFS file without a normalized store row by row
+ * @param agency - Agency name
+ * @param category - Optional category
+ * @param filename - Name of the GTFS file to parse
+ * @param onRecord - Called for every data row
+ * @returns Promise resolving to true if the file was found and parsed
  */
-function parseCSV(text: string): CSVRow[] {
-  const lines = text.split('\n').filter(line => line.trim());
-  if (lines.length === 0) return [];
-  
-  const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
-  const data: CSVRow[] = [];
+async function loadGTFSRecords(
+  agency: string,
+  category: string | null | undefined,
+  filename: string,
+  onRecord: (record: CSVRecord) => void
+): Promise<boolean> {
+  const content = await loadGTFSFile(agency, category, filename);
   
-  for (let i = 1; i < lines.length; i++) {
-    if (!lines[i].trim()) continue;
-    
-    // Simple CSV parsing (handles quoted values)
-    const values: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let j = 0; j < lines[i].length; j++) {
-      const char = lines[i][j];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        values.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    values.push(current.trim());
-    
-    const row: CSVRow = {};
-    headers.forEach((header, index) => {
-      row[header] = values[index]?.replace(/^"|"$/g, '') || '';
-    });
-    data.push(row);
+  if (!content) {
+    return false;
   }
   
-  return data;
+  forEachCSVRecord(content, onRecord);
+  return true;
 }
 
 /**
@@ -320,31 +373,94 @@ function parseCSV(text: string): CSVRow[] {
  */
 export async function fetchGTFSStops(
   agency: string = 'prasarana',
-  category: string = 'rapid-bus-kl'
+  category?: string | null
 ): Promise<Stop[]> {
   try {
-    // Load stops.txt from cache or download
-    const stopsText = await loadGTFSFile(agency, category, 'stops.txt');
-    
-    if (!stopsText) {
+    if (!(await ensureFeedCached(agency, category))) {
       console.warn(`Failed to load stops.txt for ${agency}${category ? `/${category}` : ''}`);
       return [];
     }
     
-    const stopsData = parseCSV(stopsText);
+    const stops = await getFeedStops(getFeedKey(agency, category));
+    return stops.map(stop => ({
+      id: stop.stopId,
+      feedKey: stop.feedKey,
+      name: stop.name,
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+      code: stop.code || undefined,
+      routeId: stop.routeId || undefined,
+      locationType: LOCATION_TYPES[stop.locationType] ?? 'stop',
+      parentStationId: stop.parentStation,
+      platformCode: stop.platformCode || undefined,
+      wheelchairBoarding: stop.wheelchairBoarding === 1 ? true : stop.wheelchairBoarding === 2 ? false : null,
+    }));
+  } catch (error) {
+    console.error('Error fetching GTFS Static stops data:', error);
+    return [];
+  }
+}
+
+/**
+ * Derives the category a local file is cached under from its name
+ * e.g. "Rapid KL draft (v2).zip" becomes "rapid-kl-draft-v2"
+ */
+function getLocalFeedCategory(fileName: string): string {
+  const slug = fileName
+    .replace(/\.zip$/i, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'feed';
+}
+
+/**
+ * Imports a GTFS ZIP chosen by the user, e.g. a draft feed from an operator
+ * The file goes through the same worker import as downloaded feeds and is
+ * cached under LOCAL_FEED_AGENCY, replacing an earlier file of the same name
+ * @param file - ZIP file from a file picker or drop
+ * @returns The imported feed, or null if the file is not a readable GTFS ZIP
+ */
+export async function loadLocalGTFSFeed(file: File): Promise<LocalFeed | null> {
+  try {
+    const category = getLocalFeedCategory(file.name);
+    const buffer = await file.arrayBuffer();
+    const { status, metadata } = await callGTFSWorker(
+      { type: 'import-file', agency: LOCAL_FEED_AGENCY, category, fileName: file.name, buffer },
+      { transfer: [buffer] }
+    );
+    
+    if (status !== 'updated' || !metadata) {
+      console.warn(`Failed to import local GTFS feed ${file.name}`);
+      return null;
+    }
     
-    return stopsData
-      .filter(stop => stop.stop_lat && stop.stop_lon)
-      .map(stop => ({
-        id: stop.stop_id,
-        name: stop.stop_name,
-        latitude: parseFloat(stop.stop_lat),
-        longitude: parseFloat(stop.stop_lon),
-        code: stop.stop_code || undefined,
-        routeId: stop.route_id || undefined, // Extract route_id if present in stops.txt
+    console.log(`Imported local GTFS feed ${file.name} as ${metadata.feedKey}`);
+    return { agency: LOCAL_FEED_AGENCY, category, fileName: file.name, feedVersion: metadata.feedVersion };
+  } catch (error) {
+    console.error('Error importing local GTFS feed:', error);
+    return null;
+  }
+}
+
+/**
+ * Lists the local feeds kept in the cache from earlier visits
+ * @returns Local feeds, oldest first
+ */
+export async function listLocalGTFSFeeds(): Promise<LocalFeed[]> {
+  try {
+    const feeds = await listFeedMetadata();
+    return feeds
+      .filter(metadata => metadata.agency === LOCAL_FEED_AGENCY)
+      .sort((a, b) => a.downloadedAt - b.downloadedAt)
+      .map(metadata => ({
+        agency: LOCAL_FEED_AGENCY,
+        category: metadata.category,
+        fileName: metadata.fileName ?? metadata.category,
+        feedVersion: metadata.feedVersion,
       }));
   } catch (error) {
-    console.error('Error fetching GTFS Static stops data:', error);
+    console.warn('Failed to list local GTFS feeds:', error);
     return [];
   }
 }
@@ -359,29 +475,7 @@ export async function clearGTFSCache(
   category: string | null = null
 ): Promise<void> {
   try {
-    const db = await initDB();
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    
-    if (agency) {
-      // Clear specific agency/category
-      const keyPrefix = getCacheKey(agency, category, '');
-      const request = store.openCursor();
-      
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
-        if (cursor) {
-          if (typeof cursor.key === 'string' && cursor.key.startsWith(keyPrefix)) {
-            cursor.delete();
-          }
-          cursor.continue();
-        }
-      };
-    } else {
-      // Clear all cache
-      await store.clear();
-    }
-    
+    await deleteFeed(agency ? getFeedKey(agency, category) : null);
     console.log(`Cache cleared for ${agency ? `${agency}${category ? `/${category}` : ''}` : 'all'}`);
   } catch (error) {
     console.error('Error clearing cache:', error);
@@ -416,224 +510,100 @@ async function fetchGTFSFile(
 }
 
 /**
- * Compiles trips CSV to map trip_id to route info
- * @param tripsText - CSV text from trips.txt
- * @returns Map of trip_id to {routeId, tripId}
- */
-function compileTripsFromCSV(tripsText: string): Map<string, TripInfo> {
-  const tripsData = parseCSV(tripsText);
-  const tripToRouteMap = new Map<string, TripInfo>();
-  
-  tripsData.forEach(trip => {
-    const tripId = trip.trip_id;
-    if (tripId) {
-      tripToRouteMap.set(tripId, {
-        tripId: trip.trip_id,
-        routeId: trip.route_id || null,
-      });
-    }
-  });
-  
-  return tripToRouteMap;
-}
-
-/**
- * Compiles stop_times CSV to get stop sequences for each trip
- * @param stopTimesText - CSV text from stop_times.txt
- * @returns Map of trip_id to array of {stop_id, stop_sequence}
+ * Expands packed routes from the worker into one Route per trip
+ * Trips on a pattern share its path array
+ * @param packed - Routes compiled by the worker
+ * @param feedKey - Key of the feed the trips belong to
  */
-function compileStopTimesFromCSV(stopTimesText: string): Map<string, StopSequence[]> {
-  const stopTimesData = parseCSV(stopTimesText);
-  const tripToStopsMap = new Map<string, StopSequence[]>();
-  
-  stopTimesData.forEach(stopTime => {
-    const tripId = stopTime.trip_id;
-    const stopId = stopTime.stop_id;
-    const sequence = parseInt(stopTime.stop_sequence, 10);
-    
-    if (tripId && stopId && !isNaN(sequence)) {
-      if (!tripToStopsMap.has(tripId)) {
-        tripToStopsMap.set(tripId, []);
-      }
-      
-      tripToStopsMap.get(tripId)!.push({
-        stopId,
-        sequence,
-      });
+function unpackRoutes(packed: PackedRoutes, feedKey: string): Route[] {
+  const paths = packed.patterns.map((_, index) => {
+    const path: [number, number][] = [];
+    for (let vertex = packed.pathOffsets[index]; vertex < packed.pathOffsets[index + 1]; vertex++) {
+      path.push([packed.coordinates[vertex * 2], packed.coordinates[vertex * 2 + 1]]);
     }
+    return path;
   });
   
-  // Sort stops by sequence for each trip
-  tripToStopsMap.forEach((stops) => {
-    stops.sort((a, b) => a.sequence - b.sequence);
-  });
-  
-  return tripToStopsMap;
-}
-
-/**
- * Creates route paths from stops and stop sequences
- * Uses Google Routes API to get road-following paths, with caching
- * @param stops - Array of stop objects with id, latitude, longitude
- * @param tripToStopsMap - Map of trip_id to stop sequences
- * @param tripToRouteMap - Map of trip_id to route info
- * @param onProgress - Optional progress callback
- * @returns Promise resolving to array of route path objects
- */
-async function compileRoutesFromStops(
-  stops: Stop[],
-  tripToStopsMap: Map<string, StopSequence[]>,
-  tripToRouteMap: Map<string, TripInfo>,
-  onProgress?: (current: number, total: number) => void
-): Promise<Route[]> {
-  // Import Google Routes API service
-  const { getRoutePath } = await import('./googleRoutes');
-  
-  // Create a map of stop_id to stop coordinates for quick lookup
-  const stopsMap = new Map<string, { latitude: number; longitude: number }>();
-  stops.forEach(stop => {
-    stopsMap.set(stop.id, {
-      latitude: stop.latitude,
-      longitude: stop.longitude,
-    });
-  });
-  
-  // Check session storage for cached routes
-  const sessionCacheKey = 'google_routes_cache';
-  let cachedRoutes: Map<string, Route> | null = null;
-  
-  try {
-    const cached = sessionStorage.getItem(sessionCacheKey);
-    if (cached) {
-      const parsed = JSON.parse(cached);
-      cachedRoutes = new Map(parsed.map((r: Route) => [r.id, r]));
-      console.log(`Loaded ${cachedRoutes.size} cached routes from session`);
-    }
-  } catch (error) {
-    console.warn('Error loading cached routes:', error);
-  }
-  
+  const toTime = (value: number) => (Number.isNaN(value) ? null : value);
   const routes: Route[] = [];
-  const routesToFetch: Array<{ tripId: string; waypoints: Array<{ lat: number; lng: number }>; routeInfo: TripInfo }> = [];
+  let stopTimeOffset = 0;
   
-  // Prepare routes for fetching
-  tripToStopsMap.forEach((stopSequences, tripId) => {
-    // Get route info for this trip
-    const routeInfo = tripToRouteMap.get(tripId) || { tripId, routeId: null };
+  packed.tripIds.forEach((tripId, index) => {
+    const pattern = packed.patterns[packed.tripPatterns[index]];
+    const stopTimes: StopTime[] = pattern.stopIds.map((_, stop) => ({
+      arrival: toTime(packed.stopTimes[(stopTimeOffset + stop) * 2]),
+      departure: toTime(packed.stopTimes[(stopTimeOffset + stop) * 2 + 1]),
+    }));
+    stopTimeOffset += pattern.stopIds.length;
     
-    // Check cache first
-    if (cachedRoutes?.has(tripId)) {
-      routes.push(cachedRoutes.get(tripId)!);
-      return;
-    }
-    
-    // Build waypoints from stop sequences
-    const waypoints: Array<{ lat: number; lng: number }> = [];
-    const timestamps: number[] = [];
-    const baseTime = Date.now() / 1000;
-    
-    stopSequences.forEach((stopSeq, index) => {
-      const stop = stopsMap.get(stopSeq.stopId);
-      if (stop) {
-        waypoints.push({ lat: stop.latitude, lng: stop.longitude });
-        // Generate timestamps - 30 seconds between stops
-        timestamps.push(baseTime + index * 30);
-      }
+    routes.push({
+      id: tripId,
+      patternId: pattern.id,
+      path: paths[packed.tripPatterns[index]],
+      timestamps: Array.from(packed.timestamps.subarray(packed.timestampOffsets[index], packed.timestampOffsets[index + 1])),
+      routeId: pattern.routeId,
+      serviceId: packed.serviceIds[index],
+      feedKey,
+      stopIds: pattern.stopIds,
+      stopTimes,
+      shapeId: pattern.shapeId,
     });
-    
-    // Only process routes with at least 2 stops
-    if (waypoints.length >= 2) {
-      routesToFetch.push({ tripId, waypoints, routeInfo });
-    }
   });
   
-  // Fetch routes using Google Routes API
-  if (routesToFetch.length > 0) {
-    console.log(`Fetching ${routesToFetch.length} routes from Google Routes API...`);
-    
-    let processed = 0;
-    for (const { tripId, waypoints, routeInfo } of routesToFetch) {
-      try {
-        const path = await getRoutePath(waypoints);
-        const baseTime = Date.now() / 1000;
-        const timestamps = waypoints.map((_, index) => baseTime + index * 30);
-        
-        const route: Route = {
-          id: tripId,
-          path,
-          timestamps,
-          routeId: routeInfo.routeId,
-        };
-        
-        routes.push(route);
-        processed++;
-        
-        if (onProgress) {
-          onProgress(processed, routesToFetch.length);
-        }
-      } catch (error) {
-        console.warn(`Error fetching route for trip ${tripId}:`, error);
-        // Fallback to straight line
-        const fallbackPath: [number, number][] = waypoints.map(wp => [wp.lng, wp.lat]);
-        const baseTime = Date.now() / 1000;
-        const timestamps = waypoints.map((_, index) => baseTime + index * 30);
-        
-        routes.push({
-          id: tripId,
-          path: fallbackPath,
-          timestamps,
-          routeId: routeInfo.routeId,
-        });
-      }
-    }
-    
-    // Cache routes in session storage
-    try {
-      const allRoutes = [...routes];
-      sessionStorage.setItem(sessionCacheKey, JSON.stringify(allRoutes));
-      console.log(`Cached ${allRoutes.length} routes in session storage`);
-    } catch (error) {
-      console.warn('Error caching routes:', error);
-    }
-  }
-  
   return routes;
 }
 
 /**
  * Loads route data from cached GTFS files
- * Uses Google Routes API to get road-following paths
+ * Uses shapes.txt where available and Google Routes API road-following paths otherwise
  * @param agency - Agency name (e.g., 'prasarana', 'ktmb')
  * @param category - Optional category for Prasarana
  * @param onProgress - Optional progress callback
+ * @param signal - Optional signal that aborts the download and route compilation
  * @returns Promise resolving to array of route path objects ready for TripsLayer
+ * @throws The abort reason if the signal aborts; other errors yield no routes
  */
 export async function loadRouteData(
   agency: string = 'prasarana',
-  category: string = 'rapid-bus-kl',
-  onProgress?: (current: number, total: number) => void
+  category?: string | null,
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
 ): Promise<Route[]> {
   try {
-    // Load stops, trips, and stop_times from cache
-    const [stops, tripsText, stopTimesText] = await Promise.all([
-      fetchGTFSStops(agency, category),
-      loadGTFSFile(agency, category, 'trips.txt'),
-      loadGTFSFile(agency, category, 'stop_times.txt'),
-    ]);
-    
-    // If we don't have the required files, return empty array
-    if (!tripsText || !stopTimesText || stops.length === 0) {
-      console.warn('Missing required GTFS files (trips.txt, stop_times.txt) or stops data');
+    if (!(await ensureFeedCached(agency, category, { signal }))) {
+      console.warn(`Failed to load GTFS feed for ${agency}${category ? `/${category}` : ''}`);
       return [];
     }
     
-    // Compile trips and stop sequences
-    const tripToRouteMap = compileTripsFromCSV(tripsText);
-    const tripToStopsMap = compileStopTimesFromCSV(stopTimesText);
+    // Session storage is only reachable from the main thread, so the worker
+    // receives the cached Directions paths and hands back the updated cache
+    let sessionCache: string | null = null;
+    try {
+      sessionCache = sessionStorage.getItem(ROUTE_PATHS_CACHE_KEY);
+    } catch (error) {
+      console.warn('Error loading cached routes:', error);
+    }
     
-    // Build routes from stops using Google Routes API
-    return await compileRoutesFromStops(stops, tripToStopsMap, tripToRouteMap, onProgress);
+    const feedKey = getFeedKey(agency, category);
+    const compiled = await callGTFSWorker(
+      { type: 'compile-routes', feedKey, sessionCache },
+      { onProgress, signal }
+    );
+    
+    if (compiled.sessionCache) {
+      try {
+        sessionStorage.setItem(ROUTE_PATHS_CACHE_KEY, compiled.sessionCache);
+        console.log('Cached route paths in session storage');
+      } catch (error) {
+        console.warn('Error caching routes:', error);
+      }
+    }
+    
+    return unpackRoutes(compiled.routes, feedKey);
   } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
     console.error('Error loading route data:', error);
     return [];
   }
@@ -641,7 +611,7 @@ export async function loadRouteData(
 
 /**
  * Fetches and compiles bus routes as paths for the Trips layer
- * Uses Google Routes API to get road-following paths instead of straight lines
+ * Uses shapes.txt or Google Routes API to get road-following paths instead of straight lines
  * This function now uses the cache system
  * @param agency - Agency name (e.g., 'prasarana', 'ktmb')
  * @param category - Optional category for Prasarana
@@ -650,36 +620,209 @@ export async function loadRouteData(
  */
 export async function fetchGTFSRoutes(
   agency: string = 'prasarana',
-  category: string = 'rapid-bus-kl',
+  category?: string | null,
   onProgress?: (current: number, total: number) => void
 ): Promise<Route[]> {
-  // Use the loadRouteData function which handles caching and Google Routes API
+  // Use the loadRouteData function which handles caching, shapes and Google Routes API
   return await loadRouteData(agency, category, onProgress);
 }
 
 /**
  * Fetches routes for multiple agencies
  * @param agencies - Array of {agency, category} objects
- * @param onProgress - Optional progress callback
+ * @param onProgress - Optional progress callback, summed over the agencies
  * @returns Promise resolving to combined array of all route paths
  */
 export async function fetchMultipleAgencyRoutes(
   agencies: Agency[],
   onProgress?: (current: number, total: number) => void
 ): Promise<Route[]> {
-  const promises = agencies.map(({ agency, category }) => 
-    fetchGTFSRoutes(agency, category)
+  const progress = agencies.map(() => ({ current: 0, total: 0 }));
+  const reportProgress = () => {
+    onProgress?.(
+      progress.reduce((sum, agencyProgress) => sum + agencyProgress.current, 0),
+      progress.reduce((sum, agencyProgress) => sum + agencyProgress.total, 0)
+    );
+  };
+  
+  const promises = agencies.map(({ agency, category }, index) => 
+    fetchGTFSRoutes(agency, category, (current, total) => {
+      progress[index] = { current, total };
+      reportProgress();
+    })
   );
   
   const results = await Promise.all(promises);
-  const allRoutes = results.flat();
+  return results.flat();
+}
+
+/**
+ * Loads everything the map needs from one agency's feed, for the load pipeline
+ * Downloads and imports the feed if it is not cached yet, then compiles its
+ * routes and reads its stops, route info and service calendar
+ * @param agency - Agency and optional category
+ * @param context - Abort signal and phase progress callback
+ * @returns Promise resolving to the feed's static data
+ * @throws If the feed is not cached and cannot be downloaded, or the abort reason if the signal aborts
+ */
+export async function loadAgencyStaticData(
+  { agency, category }: Agency,
+  context: LoadContext
+): Promise<AgencyStaticData> {
+  const { signal, onProgress } = context;
+  
+  if (!(await ensureFeedCached(agency, category, context))) {
+    throw new Error(`GTFS feed ${getFeedKey(agency, category)} is not cached and could not be downloaded`);
+  }
+  
+  onProgress('geometry', 0, 0);
+  const routes = await loadRouteData(agency, category, (current, total) => onProgress('geometry', current, total), signal);
+  
+  // Stops, route info and calendar are read from the cache on the main thread
+  onProgress('index', 0, 3);
+  const stops = await fetchGTFSStops(agency, category);
+  signal.throwIfAborted();
+  onProgress('index', 1, 3);
+  const routeInfo = await fetchGTFSRouteInfo(agency, category);
+  signal.throwIfAborted();
+  onProgress('index', 2, 3);
+  const calendar = await fetchServiceCalendar(agency, category);
+  signal.throwIfAborted();
+  onProgress('index', 3, 3);
+  
+  return { stops, routes, routeInfo, calendar };
+}
+
+/**
+ * Loads a feed's service calendar from calendar.txt and calendar_dates.txt
+ * Both files are optional in GTFS; a feed with neither yields an empty calendar
+ * @param agency - Agency name (e.g., 'prasarana', 'ktmb')
+ * @param category - Optional category for Prasarana
+ * @returns Promise resolving to the feed's service calendar
+ */
+export async function fetchServiceCalendar(
+  agency: string = 'prasarana',
+  category?: string | null
+): Promise<ServiceCalendar> {
+  const calendar = createServiceCalendar();
   
-  // Call progress callback if provided
-  if (onProgress) {
-    onProgress(allRoutes.length, allRoutes.length);
+  try {
+    await loadGTFSRecords(agency, category, 'calendar.txt', record => addCalendarRecord(calendar, record));
+    await loadGTFSRecords(agency, category, 'calendar_dates.txt', record => addCalendarDateRecord(calendar, record));
+  } catch (error) {
+    console.error('Error loading service calendar:', error);
   }
   
-  return allRoutes;
+  return calendar;
+}
+
+/**
+ * Fetches service calendars for multiple agencies
+ * @param agencies - Array of {agency, category} objects
+ * @returns Promise resolving to calendars keyed by getFeedKey
+ */
+export async function fetchMultipleAgencyServiceCalendars(agencies: Agency[]): Promise<Map<string, ServiceCalendar>> {
+  const calendars = await Promise.all(
+    agencies.map(({ agency, category }) => fetchServiceCalendar(agency, category))
+  );
+  
+  return new Map(agencies.map(({ agency, category }, index) => [getFeedKey(agency, category), calendars[index]]));
+}
+
+/**
+ * Fetches route names, types and colors from routes.txt
+ * @param agency - Agency name (e.g., 'prasarana', 'ktmb')
+ * @param category - Optional category for Prasarana
+ * @returns Promise resolving to array of route info objects
+ */
+export async function fetchGTFSRouteInfo(
+  agency: string = 'prasarana',
+  category?: string | null
+): Promise<RouteInfo[]> {
+  try {
+    if (!(await ensureFeedCached(agency, category))) {
+      console.warn(`Failed to load routes.txt for ${agency}${category ? `/${category}` : ''}`);
+      return [];
+    }
+    
+    const routes = await getFeedRoutes(getFeedKey(agency, category));
+    const routeInfo: RouteInfo[] = routes.map(route => ({
+      id: route.routeId,
+      agencyId: route.agencyId,
+      shortName: route.shortName,
+      longName: route.longName,
+      type: route.type,
+      color: route.color,
+      textColor: route.textColor,
+    }));
+    
+    return routeInfo;
+  } catch (error) {
+    console.error('Error fetching GTFS Static route info:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetches route info for multiple agencies
+ */
+export async function fetchMultipleAgencyRouteInfo(agencies: Agency[]): Promise<RouteInfo[]> {
+  const promises = agencies.map(({ agency, category }) => 
+    fetchGTFSRouteInfo(agency, category)
+  );
+  
+  const results = await Promise.all(promises);
+  return results.flat();
+}
+
+/**
+ * Gets a feed's validation report
+ * Reports are produced when a feed is imported; feeds cached before that are
+ * validated from their stored records on first request
+ * @param agency - Agency name (e.g., 'prasarana', 'ktmb')
+ * @param category - Optional category for Prasarana
+ * @returns Promise resolving to the report, or null if the feed is unavailable
+ */
+export async function fetchFeedValidationReport(
+  agency: string = 'prasarana',
+  category?: string | null
+): Promise<ValidationReport | null> {
+  try {
+    if (!(await ensureFeedCached(agency, category))) {
+      return null;
+    }
+    
+    const feedKey = getFeedKey(agency, category);
+    return await getValidationReport(feedKey) ?? await callGTFSWorker({ type: 'validate-feed', feedKey });
+  } catch (error) {
+    console.error('Error fetching GTFS feed validation report:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetches validation reports for multiple agencies
+ * @param agencies - Array of {agency, category} objects
+ * @returns Promise resolving to the reports of every available feed
+ */
+export async function fetchMultipleAgencyValidationReports(agencies: Agency[]): Promise<ValidationReport[]> {
+  const reports = await Promise.all(
+    agencies.map(({ agency, category }) => fetchFeedValidationReport(agency, category))
+  );
+  return reports.filter((report): report is ValidationReport => report !== null);
+}
+
+/**
+ * Gets the name riders know a route by
+ * @param routeId - Route ID
+ * @param routeInfo - Route info from routes.txt, if known
+ * @returns Short name, else long name, else the route_id (null without a route)
+ */
+export function getRouteDisplayName(
+  routeId: string | null | undefined,
+  routeInfo?: RouteInfo | null
+): string | null {
+  return routeInfo?.shortName || routeInfo?.longName || routeId || null;
 }
 
 /**
@@ -718,3 +861,56 @@ export function getStopColor(stop: Stop): [number, number, number, number] | nul
   return null; // Route ID doesn't match any train line
 }
 
+
+/**
+ * Palette for routes without a known line color
+ */
+const ROUTE_PALETTE: [number, number, number][] = [
+  [230, 25, 75],
+  [60, 180, 75],
+  [255, 225, 25],
+  [67, 99, 216],
+  [245, 130, 49],
+  [145, 30, 180],
+  [70, 240, 240],
+  [240, 50, 230],
+  [188, 246, 12],
+  [250, 190, 190],
+  [0, 128, 128],
+  [154, 99, 36],
+];
+
+/**
+ * Gets a stable color for a route
+ * The official route_color from routes.txt wins; otherwise train lines use
+ * LINE_COLORS and other routes get a palette color derived from the route_id
+ * @param routeId - Route ID (null for vehicles without a trip assignment)
+ * @param routeInfo - Route info from routes.txt, if known
+ * @returns RGB color array [r, g, b]
+ */
+export function getRouteColor(
+  routeId: string | null | undefined,
+  routeInfo?: RouteInfo | null
+): [number, number, number] {
+  if (routeInfo?.color) {
+    return routeInfo.color;
+  }
+
+  if (!routeId) {
+    return [200, 200, 200]; // Grey for unassigned vehicles
+  }
+
+  const upperRouteId = routeId.toUpperCase();
+  for (const [linePrefix, color] of Object.entries(LINE_COLORS)) {
+    if (upperRouteId.startsWith(linePrefix.toUpperCase())) {
+      return color;
+    }
+  }
+
+  // Simple string hash so the same route always gets the same color
+  let hash = 0;
+  for (let i = 0; i < routeId.length; i++) {
+    hash = (hash * 31 + routeId.charCodeAt(i)) | 0;
+  }
+  return ROUTE_PALETTE[Math.abs(hash) % ROUTE_PALETTE.length];
+}
@@ -0,0 +1,75 @@
+/**
+ * GTFS schedule time helpers
+ * GTFS times are "HH:MM:SS" measured from the start of the service day and may
+ * run past 24:00:00 for trips that finish after midnight. All Malaysian feeds
+ * use Asia/Kuala_Lumpur, which is UTC+8 year-round with no daylight saving, so
+ * the service day simply starts at local midnight.
+ */
+
+export const AGENCY_TIMEZONE = 'Asia/Kuala_Lumpur';
+
+// Asia/Kuala_Lumpur offset from UTC in seconds
+const TIMEZONE_OFFSET_SECONDS = 8 * 60 * 60;
+
+/**
+ * Parses a GTFS time into seconds since the start of the service day
+ * @param value - Time such as "08:15:00" or "25:10:00"
+ * @returns Seconds since the start of the service day, or null if blank or malformed
+ */
+export function parseGTFSTime(value: string): number | null {
+  const match = /^(\d{1,3}):(\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  if (minutes > 59 || seconds > 59) {
+    return null;
+  }
+
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Gets the service date a moment falls on in Kuala Lumpur
+ * @param date - Moment to convert (defaults to now)
+ * @returns Service date as "YYYYMMDD"
+ */
+export function getServiceDate(date: Date = new Date()): string {
+  const local = new Date(date.getTime() + TIMEZONE_OFFSET_SECONDS * 1000);
+  const year = local.getUTCFullYear();
+  const month = String(local.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(local.getUTCDate()).padStart(2, '0');
+  return `${year}${month}${day}`;
+}
+
+/**
+ * Gets the POSIX time at which a service day starts
+ * Adding a GTFS time to this gives the absolute time of a scheduled event
+ * @param serviceDate - Service date as "YYYYMMDD"
+ * @returns POSIX seconds of local midnight on that date, or null if malformed
+ */
+export function getServiceDayStart(serviceDate: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(serviceDate);
+  if (!match) {
+    return null;
+  }
+
+  const utcMidnight = Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)) / 1000;
+  return utcMidnight - TIMEZONE_OFFSET_SECONDS;
+}
+
+/**
+ * Formats a moment as a Kuala Lumpur clock time
+ * @param time - POSIX seconds
+ * @returns Time as "HH:MM"
+ */
+export function formatClockTime(time: number): string {
+  return new Date(time * 1000).toLocaleTimeString('en-GB', {
+    timeZone: AGENCY_TIMEZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,144 @@
+/**
+ * Main-thread client for the GTFS worker
+ * Starts the worker on first use and matches its replies to pending requests.
+ * Where module workers are unavailable, requests run on the main thread instead.
+ */
+
+import type {
+  GTFSWorkerRequest,
+  GTFSWorkerResults,
+  GTFSWorkerEnvelope,
+  GTFSWorkerMessage,
+} from '../workers/gtfsWorkerProtocol';
+import type { LoadPhase } from './loadPipeline';
+
+type WorkerProgressCallback = (current: number, total: number, phase?: LoadPhase) => void;
+
+interface PendingRequest {
+  resolve: (result: GTFSWorkerResults[GTFSWorkerRequest['type']]) => void;
+  reject: (error: Error) => void;
+  onProgress?: WorkerProgressCallback;
+}
+
+export interface GTFSWorkerCallOptions {
+  transfer?: Transferable[]; // Buffers in the request to move rather than copy
+  onProgress?: WorkerProgressCallback;
+  signal?: AbortSignal; // Cancels the request in the worker; the call rejects with the abort reason
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+/**
+ * Rejects every pending request, e.g. after the worker crashed
+ */
+function rejectPendingRequests(error: Error): void {
+  pendingRequests.forEach(pending => pending.reject(error));
+  pendingRequests.clear();
+}
+
+/**
+ * Gets the shared worker, starting it if needed
+ * @returns The worker, or null if workers are unavailable or it failed to start
+ */
+function getWorker(): Worker | null {
+  if (worker || workerFailed) {
+    return worker;
+  }
+
+  if (typeof Worker === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL('../workers/gtfs.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Failed to start GTFS worker, processing on the main thread:', error);
+    workerFailed = true;
+    return null;
+  }
+
+  worker.addEventListener('message', (event: MessageEvent<GTFSWorkerMessage>) => {
+    const message = event.data;
+    const pending = pendingRequests.get(message.id);
+    if (!pending) {
+      return;
+    }
+
+    switch (message.type) {
+      case 'progress':
+        pending.onProgress?.(message.current, message.total, message.phase);
+        break;
+      case 'result':
+        pendingRequests.delete(message.id);
+        pending.resolve(message.result);
+        break;
+      case 'error':
+        pendingRequests.delete(message.id);
+        pending.reject(new Error(message.message));
+        break;
+    }
+  });
+
+  worker.addEventListener('error', event => {
+    console.error('GTFS worker error:', event.message);
+    rejectPendingRequests(new Error(event.message || 'GTFS worker error'));
+    // A worker that fails to load cannot recover, so stop using it
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+  });
+
+  return worker;
+}
+
+/**
+ * Sends a request to the GTFS worker
+ * @param request - Request to run
+ * @param options - Buffers to transfer, an optional progress callback and an optional abort signal
+ * @returns Promise resolving to the request's result
+ */
+export async function callGTFSWorker<R extends GTFSWorkerRequest>(
+  request: R,
+  options: GTFSWorkerCallOptions = {}
+): Promise<GTFSWorkerResults[R['type']]> {
+  const { signal } = options;
+  signal?.throwIfAborted();
+  const target = getWorker();
+
+  if (!target) {
+    const { handleGTFSWorkerRequest } = await import('../workers/gtfsWorkerHandler');
+    const { result } = await handleGTFSWorkerRequest(request, options.onProgress ?? (() => {}), signal);
+    return result as GTFSWorkerResults[R['type']];
+  }
+
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    // Reject right away rather than when the worker reaches its next checkpoint
+    const onAbort = () => {
+      pendingRequests.delete(id);
+      const cancel: GTFSWorkerEnvelope = { id, type: 'cancel' };
+      target.postMessage(cancel);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    pendingRequests.set(id, {
+      resolve: result => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result as GTFSWorkerResults[R['type']]);
+      },
+      reject: error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress: options.onProgress,
+    });
+
+    const envelope: GTFSWorkerEnvelope = { id, type: 'request', request };
+    target.postMessage(envelope, options.transfer ?? []);
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * Static feed load pipeline
+ * Loads each agency's feed through the download, unzip, parse, geometry and
+ * index phases and reports progress per agency and overall. Every agency load
+ * has its own AbortSignal, so agencies that are no longer wanted are cancelled
+ * instead of waited for, and a failed agency can be retried on its own.
+ */
+
+import { getFeedKey } from './gtfsDatabase';
+import type { Agency } from './gtfsStatic';
+
+export type LoadPhase = 'download' | 'unzip' | 'parse' | 'geometry' | 'index';
+
+// Phases in the order a load passes through them; feeds already cached start at geometry
+export const LOAD_PHASES: LoadPhase[] = ['download', 'unzip', 'parse', 'geometry', 'index'];
+
+// Share of an agency's load spent in each phase, for the overall progress
+const PHASE_WEIGHTS: Record<LoadPhase, number> = {
+  download: 0.3,
+  unzip: 0.05,
+  parse: 0.3,
+  geometry: 0.25,
+  index: 0.1,
+};
+
+// Progress within a phase is reported at most this often (ms); status changes are reported at once
+const PROGRESS_REPORT_INTERVAL = 100;
+
+// total is 0 when unknown, e.g. a download without Content-Length
+export type PhaseProgressCallback = (phase: LoadPhase, current: number, total: number) => void;
+
+// Passed to every step of an agency load
+export interface LoadContext {
+  signal: AbortSignal;
+  onProgress: PhaseProgressCallback;
+}
+
+export type AgencyLoadStatus = 'loading' | 'loaded' | 'failed';
+
+export interface AgencyLoadProgress {
+  feedKey: string; // See getFeedKey
+  agency: Agency;
+  status: AgencyLoadStatus;
+  phase: LoadPhase | null; // null until the load first reports progress
+  current: number;
+  total: number;
+  error: string | null; // Why the load failed
+}
+
+export interface LoadProgress {
+  agencies: AgencyLoadProgress[]; // In the order they were requested
+  fraction: number; // Overall progress from 0 to 1; failed agencies count as finished
+  done: boolean; // No agency is loading
+}
+
+export interface LoadPipelineOptions<T> {
+  loadAgency: (agency: Agency, context: LoadContext) => Promise<T>;
+  onLoaded: (agency: Agency, result: T) => void; // Not called for cancelled loads
+  onProgress: (progress: LoadProgress) => void;
+}
+
+export interface LoadPipeline<T> {
+  load: (agencies: Agency[]) => void;
+  reload: (agency: Agency) => Promise<T | null>;
+  cancel: () => void;
+}
+
+interface AgencyLoad {
+  progress: AgencyLoadProgress;
+  controller: AbortController | null; // null once the load has finished
+}
+
+/**
+ * Progress of one agency's load from 0 to 1
+ */
+function getAgencyFraction(progress: AgencyLoadProgress): number {
+  if (progress.status !== 'loading') {
+    return 1;
+  }
+  if (!progress.phase) {
+    return 0;
+  }
+
+  const phaseIndex = LOAD_PHASES.indexOf(progress.phase);
+  const completed = LOAD_PHASES.slice(0, phaseIndex).reduce((sum, phase) => sum + PHASE_WEIGHTS[phase], 0);
+  const withinPhase = progress.total > 0 ? Math.min(progress.current / progress.total, 1) : 0;
+  return completed + PHASE_WEIGHTS[progress.phase] * withinPhase;
+}
+
+/**
+ * Creates a load pipeline
+ * @param options - Loader for one agency, called with a signal and a phase progress callback,
+ *                  plus callbacks for loaded data and progress
+ * @returns Pipeline with load (set the agencies to load, cancelling the others),
+ *          reload (load one agency again, e.g. to retry a failure) and cancel (stop everything)
+ */
+export function createLoadPipeline<T>({
+  loadAgency,
+  onLoaded,
+  onProgress,
+}: LoadPipelineOptions<T>): LoadPipeline<T> {
+  // Insertion order is the order agencies were requested in
+  const loads = new Map<string, AgencyLoad>();
+  let reportTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastReportAt = 0;
+
+  function report(): void {
+    if (reportTimer) {
+      clearTimeout(reportTimer);
+      reportTimer = null;
+    }
+    lastReportAt = Date.now();
+
+    const agencies = Array.from(loads.values(), load => load.progress);
+    const fraction = agencies.length > 0
+      ? agencies.reduce((sum, progress) => sum + getAgencyFraction(progress), 0) / agencies.length
+      : 1;
+    onProgress({ agencies, fraction, done: agencies.every(progress => progress.status !== 'loading') });
+  }
+
+  function scheduleReport(): void {
+    if (!reportTimer) {
+      reportTimer = setTimeout(report, Math.max(0, lastReportAt + PROGRESS_REPORT_INTERVAL - Date.now()));
+    }
+  }
+
+  /**
+   * Starts loading an agency, cancelling any load of it already running
+   * @returns The loaded data, or null if the load failed or was cancelled
+   */
+  function start(agency: Agency): Promise<T | null> {
+    const feedKey = getFeedKey(agency.agency, agency.category);
+    loads.get(feedKey)?.controller?.abort();
+
+    const controller = new AbortController();
+    const load: AgencyLoad = {
+      progress: { feedKey, agency, status: 'loading', phase: null, current: 0, total: 0, error: null },
+      controller,
+    };
+    loads.set(feedKey, load);
+    report();
+
+    // A cancelled load may still settle or report progress; it no longer owns the agency's entry
+    const update = (changes: Partial<AgencyLoadProgress>) => {
+      if (controller.signal.aborted) {
+        return;
+      }
+      load.progress = { ...load.progress, ...changes };
+      if (changes.status) {
+        report();
+      } else {
+        scheduleReport();
+      }
+    };
+
+    return loadAgency(agency, {
+      signal: controller.signal,
+      onProgress: (phase, current, total) => update({ phase, current, total }),
+    }).then(
+      result => {
+        if (controller.signal.aborted) {
+          return null;
+        }
+        onLoaded(agency, result);
+        update({ status: 'loaded' });
+        load.controller = null;
+        return result;
+      },
+      error => {
+        if (controller.signal.aborted) {
+          return null;
+        }
+        console.error(`Failed to load GTFS feed ${feedKey}:`, error);
+        update({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        load.controller = null;
+        return null;
+      }
+    );
+  }
+
+  return {
+    load: (agencies: Agency[]) => {
+      const feedKeys = new Set(agencies.map(({ agency, category }) => getFeedKey(agency, category)));
+      loads.forEach((load, feedKey) => {
+        if (!feedKeys.has(feedKey)) {
+          load.controller?.abort();
+          loads.delete(feedKey);
+        }
+      });
+
+      agencies.forEach(agency => {
+        if (!loads.has(getFeedKey(agency.agency, agency.category))) {
+          start(agency);
+        }
+      });
+      report();
+    },
+    reload: start,
+    cancel: () => {
+      if (reportTimer) {
+        clearTimeout(reportTimer);
+        reportTimer = null;
+      }
+      loads.forEach(load => load.controller?.abort());
+      loads.clear();
+    },
+  };
+}
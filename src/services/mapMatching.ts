@@ -0,0 +1,135 @@
+/**
+ * Map matching
+ * Snaps vehicle positions onto their trip's route path and works out how far
+ * along the trip they are, which stops they are between and whether they have
+ * left the route
+ */
+
+import { measurePath, projectOntoPath, segmentIndexAtDistance } from './geometry';
+import type { LngLat, PathMeasure } from './geometry';
+
+export interface RouteGeometry {
+  measure: PathMeasure;
+  stopDistances: number[]; // Distance along the path of each stop, in trip order
+}
+
+export interface RouteMatch {
+  point: LngLat; // Position snapped onto the route path
+  distanceTravelled: number; // Meters from the start of the path
+  fraction: number; // 0 at the first vertex, 1 at the last
+  previousStopIndex: number | null; // Last stop passed (or currently at), null before the first stop
+  nextStopIndex: number | null; // Next stop ahead, null after the last stop
+  segmentFraction: number | null; // 0 at the previous stop, 1 at the next; null before the first or after the last stop
+  offRouteDistance: number; // Meters between the raw position and the path
+  isOffRoute: boolean;
+}
+
+export interface MatchOptions {
+  // Raw positions further than this from the path are flagged as off-route (meters)
+  offRouteThreshold?: number;
+  // Distance travelled at the previous match; searching from here keeps loop routes
+  // from snapping onto the opposite leg
+  previousDistance?: number;
+}
+
+const DEFAULT_OFF_ROUTE_THRESHOLD = 100;
+
+// A vehicle within this distance of a stop counts as being at it, not before it
+const STOP_ARRIVAL_RADIUS = 15;
+
+// How far back from the previous match we still accept (GPS jitter, short reversals)
+const BACKTRACK_TOLERANCE = 200;
+
+/**
+ * Precomputes path distances for a trip's stops
+ * Stops are projected in trip order, each one searched from the previous
+ * stop's segment onwards, so routes that pass the same street twice map correctly
+ * @param path - Route path as [longitude, latitude] coordinates
+ * @param stopPositions - Stop coordinates in stop_sequence order
+ * @returns Route geometry ready for matching
+ */
+export function buildRouteGeometry(path: LngLat[], stopPositions: LngLat[]): RouteGeometry {
+  const measure = measurePath(path);
+  const stopDistances: number[] = [];
+
+  let minSegment = 0;
+  for (const position of stopPositions) {
+    const projection = projectOntoPath(measure, position, minSegment);
+    const distance = projection ? projection.distance : 0;
+    stopDistances.push(Math.max(distance, stopDistances[stopDistances.length - 1] ?? 0));
+    if (projection) {
+      minSegment = projection.segmentIndex;
+    }
+  }
+
+  return { measure, stopDistances };
+}
+
+/**
+ * Matches a position against a route
+ * @param geometry - Route geometry from buildRouteGeometry
+ * @param position - Raw [longitude, latitude] position
+ * @param options - Off-route threshold and previous match hint
+ * @returns Match result, or null when the route has no path
+ */
+export function matchToRoute(
+  geometry: RouteGeometry,
+  position: LngLat,
+  options: MatchOptions = {}
+): RouteMatch | null {
+  const { measure, stopDistances } = geometry;
+  const offRouteThreshold = options.offRouteThreshold ?? DEFAULT_OFF_ROUTE_THRESHOLD;
+
+  let minSegment = 0;
+  if (options.previousDistance !== undefined) {
+    minSegment = segmentIndexAtDistance(measure, Math.max(0, options.previousDistance - BACKTRACK_TOLERANCE));
+  }
+
+  let projection = projectOntoPath(measure, position, minSegment);
+
+  // If the constrained search only finds a poor match, the hint was probably stale
+  if (minSegment > 0 && projection && projection.offset > offRouteThreshold) {
+    const unconstrained = projectOntoPath(measure, position);
+    if (unconstrained && unconstrained.offset < projection.offset) {
+      projection = unconstrained;
+    }
+  }
+
+  if (!projection) {
+    return null;
+  }
+
+  const distanceTravelled = projection.distance;
+
+  // Stops are sorted by distance; find the first one still ahead of the vehicle
+  let nextStopIndex: number | null = null;
+  for (let i = 0; i < stopDistances.length; i++) {
+    if (stopDistances[i] > distanceTravelled + STOP_ARRIVAL_RADIUS) {
+      nextStopIndex = i;
+      break;
+    }
+  }
+
+  const previousStopIndex = nextStopIndex === null
+    ? (stopDistances.length > 0 ? stopDistances.length - 1 : null)
+    : (nextStopIndex > 0 ? nextStopIndex - 1 : null);
+
+  let segmentFraction: number | null = null;
+  if (previousStopIndex !== null && nextStopIndex !== null) {
+    const segmentLength = stopDistances[nextStopIndex] - stopDistances[previousStopIndex];
+    segmentFraction = segmentLength > 0
+      ? Math.max(0, Math.min(1, (distanceTravelled - stopDistances[previousStopIndex]) / segmentLength))
+      : 0;
+  }
+
+  return {
+    point: projection.point,
+    distanceTravelled,
+    fraction: measure.length > 0 ? distanceTravelled / measure.length : 0,
+    previousStopIndex,
+    nextStopIndex,
+    segmentFraction,
+    offRouteDistance: projection.offset,
+    isOffRoute: projection.offset > offRouteThreshold,
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Realtime polling scheduler
+ * Polls each agency's GTFS Realtime feed on its own timer, aligned with the
+ * producer's FeedHeader timestamp, with exponential backoff on failures and
+ * no polling while the page is hidden. Agencies that do not publish an
+ * optional feed stop being polled for it after the first 404.
+ */
+
+import type { Agency, RealtimeFetchResult, RealtimeErrorCategory } from './gtfsRealtime';
+
+export interface PollingSchedulerOptions<T> {
+  agencies: Agency[];
+  fetchAgency: (agency: Agency) => Promise<RealtimeFetchResult<T>>;
+  emptyData: T; // Data of the error result reported when fetchAgency throws
+  // Called after every fetch; `changed` is false when the feed header timestamp did not move
+  onResult: (result: RealtimeFetchResult<T>, changed: boolean) => void;
+  interval?: number; // Poll interval (ms) when the feed timestamp is unknown
+  feedInterval?: number; // How often the producer publishes a new feed (ms)
+  minInterval?: number; // Never poll the same agency more often than this (ms)
+  maxBackoff?: number; // Upper bound for the backoff delay (ms)
+  // The feed is optional (trip updates, alerts): a 404 means the agency does not publish it,
+  // so the agency is not polled again until the scheduler is recreated
+  optionalFeed?: boolean;
+}
+
+export interface PollingScheduler {
+  start: () => void;
+  stop: () => void;
+  pollNow: () => void;
+}
+
+interface AgencyPollState {
+  agency: Agency;
+  timer: ReturnType<typeof setTimeout> | null;
+  inFlight: boolean;
+  failures: number;
+  lastFeedTimestamp: number | null;
+  nextPollAt: number; // ms since epoch
+  unpublished: boolean; // Optional feed answered 404; never polled again
+}
+
+const DEFAULT_INTERVAL = 45000;
+const DEFAULT_FEED_INTERVAL = 30000; // Malaysia Open API publishes every 30 seconds
+const DEFAULT_MIN_INTERVAL = 10000;
+const DEFAULT_MAX_BACKOFF = 10 * 60 * 1000;
+
+// Wait a little after the expected publish time so the new feed is actually out
+const PUBLISH_MARGIN_MS = 3000;
+
+// A feed whose header has not moved for this many publish cycles is considered stalled
+const STALLED_FEED_CYCLES = 3;
+
+// Errors that mean "ask again later, and less often"; 404 is included because
+// it almost always means the agency does not publish that feed at all (optional
+// feeds stop polling instead, see optionalFeed)
+const BACKOFF_CATEGORIES: RealtimeErrorCategory[] = ['rate-limited', 'server', 'not-found'];
+
+/**
+ * Generate a stable key for an agency/category pair
+ */
+export function getAgencyKey({ agency, category }: Agency): string {
+  return category ? `${agency}/${category}` : agency;
+}
+
+/**
+ * Creates a polling scheduler for one kind of realtime feed
+ * @param options - Agencies, fetch function, result callback and timing options
+ * @returns Scheduler with start/stop controls
+ */
+export function createPollingScheduler<T>(options: PollingSchedulerOptions<T>): PollingScheduler {
+  const interval = options.interval ?? DEFAULT_INTERVAL;
+  const feedInterval = options.feedInterval ?? DEFAULT_FEED_INTERVAL;
+  const minInterval = options.minInterval ?? DEFAULT_MIN_INTERVAL;
+  const maxBackoff = options.maxBackoff ?? DEFAULT_MAX_BACKOFF;
+
+  const states = options.agencies.map<AgencyPollState>(agency => ({
+    agency,
+    timer: null,
+    inFlight: false,
+    failures: 0,
+    lastFeedTimestamp: null,
+    nextPollAt: 0,
+    unpublished: false,
+  }));
+
+  let running = false;
+  let paused = false;
+
+  const isHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden';
+
+  /**
+   * Exponential backoff with jitter so agencies do not retry in lockstep
+   */
+  const getBackoffDelay = (state: AgencyPollState): number => {
+    const backoff = Math.min(maxBackoff, interval * 2 ** (state.failures - 1));
+    return backoff * (0.8 + Math.random() * 0.4);
+  };
+
+  /**
+   * Works out how long to wait before polling an agency again
+   */
+  const getNextDelay = (state: AgencyPollState, result: RealtimeFetchResult<T>, changed: boolean): number => {
+    if (result.status === 'error') {
+      const category = result.error?.category;
+      if (category && BACKOFF_CATEGORIES.includes(category)) {
+        return getBackoffDelay(state);
+      }
+      return interval;
+    }
+
+    if (result.feedTimestamp === null) {
+      return interval;
+    }
+
+    const now = Date.now();
+    const feedTime = result.feedTimestamp * 1000;
+
+    // Producer has stopped publishing; fall back to the regular interval
+    if (now - feedTime > feedInterval * STALLED_FEED_CYCLES) {
+      return interval;
+    }
+
+    // Same feed as last time: the next one is due shortly, check again soon
+    if (!changed) {
+      return minInterval;
+    }
+
+    // Poll just after the next publish that is at least minInterval away
+    let nextPublish = feedTime + feedInterval + PUBLISH_MARGIN_MS;
+    while (nextPublish - now < minInterval) {
+      nextPublish += feedInterval;
+    }
+    return nextPublish - now;
+  };
+
+  const schedule = (state: AgencyPollState, delay: number) => {
+    if (state.timer) {
+      clearTimeout(state.timer);
+    }
+    if (state.unpublished) {
+      state.timer = null;
+      return;
+    }
+    state.nextPollAt = Date.now() + delay;
+    state.timer = running && !paused
+      ? setTimeout(() => poll(state), delay)
+      : null;
+  };
+
+  const poll = async (state: AgencyPollState) => {
+    state.timer = null;
+    if (!running || paused || state.inFlight) {
+      return;
+    }
+
+    state.inFlight = true;
+    let result: RealtimeFetchResult<T>;
+    let threw = false;
+    try {
+      result = await options.fetchAgency(state.agency);
+    } catch (error) {
+      // Reported like a failed fetch, so the agency keeps polling with backoff
+      console.error(`Error polling ${getAgencyKey(state.agency)}:`, error);
+      threw = true;
+      result = {
+        agency: state.agency.agency,
+        category: state.agency.category || null,
+        status: 'error',
+        data: options.emptyData,
+        error: { category: 'network', message: error instanceof Error ? error.message : String(error), httpStatus: null },
+        httpStatus: null,
+        feedTimestamp: null,
+        entityCount: 0,
+        fetchedAt: Date.now() / 1000,
+      };
+    } finally {
+      state.inFlight = false;
+    }
+
+    if (!running) {
+      return;
+    }
+
+    let changed = true;
+    if (result.status === 'ok') {
+      state.failures = 0;
+      changed = result.feedTimestamp === null || result.feedTimestamp !== state.lastFeedTimestamp;
+      state.lastFeedTimestamp = result.feedTimestamp;
+    } else {
+      state.failures++;
+    }
+
+    try {
+      options.onResult(result, changed);
+    } catch (error) {
+      console.error(`Error handling poll result for ${getAgencyKey(state.agency)}:`, error);
+    }
+
+    if (options.optionalFeed && result.error?.category === 'not-found') {
+      console.info(`${getAgencyKey(state.agency)} does not publish this feed; no longer polling it`);
+      state.unpublished = true;
+    }
+    schedule(state, threw ? getBackoffDelay(state) : getNextDelay(state, result, changed));
+  };
+
+  const pause = () => {
+    paused = true;
+    states.forEach(state => {
+      if (state.timer) {
+        clearTimeout(state.timer);
+        state.timer = null;
+      }
+    });
+  };
+
+  const resume = () => {
+    if (!paused) return;
+    paused = false;
+
+    // Poll right away unless an agency is still backing off
+    const now = Date.now();
+    states.forEach(state => {
+      const delay = state.failures > 0 ? Math.max(0, state.nextPollAt - now) : 0;
+      schedule(state, delay);
+    });
+  };
+
+  const handleVisibilityChange = () => {
+    if (isHidden()) {
+      pause();
+    } else {
+      resume();
+    }
+  };
+
+  const handleFocus = () => {
+    resume();
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      paused = isHidden();
+
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      window.addEventListener('focus', handleFocus);
+
+      states.forEach(state => schedule(state, 0));
+    },
+
+    stop() {
+      running = false;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('focus', handleFocus);
+
+      states.forEach(state => {
+        if (state.timer) {
+          clearTimeout(state.timer);
+          state.timer = null;
+        }
+      });
+    },
+
+    pollNow() {
+      states.forEach(state => schedule(state, 0));
+    },
+  };
+}
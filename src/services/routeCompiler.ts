@@ -0,0 +1,518 @@
+/**
+ * Route compilation
+ * Turns a cached feed's trips, stop times and shapes into route patterns with
+ * paths and per-vertex schedules. Kept free of DOM access so it can run in the
+ * GTFS worker; results are packed into typed arrays so they can be transferred
+ * back to the main thread without copying.
+ */
+
+import { getFeedStops, getFeedTrips, getFeedStopTimes, getFeedShapes } from './gtfsDatabase';
+import type { StoredStop } from './gtfsDatabase';
+import { buildRouteGeometry } from './mapMatching';
+
+interface TripInfo {
+  tripId: string;
+  routeId: string | null;
+  serviceId: string | null;
+  directionId: number | null;
+  shapeId: string | null;
+}
+
+interface RoutePattern {
+  id: string;
+  key: string; // Grouping key: route_id, direction_id and ordered stop_ids
+  routeId: string | null;
+  shapeId: string | null;
+  waypoints: Array<{ lat: number; lng: number }>;
+  stopIds: string[];
+  tripIds: string[];
+}
+
+interface Shape {
+  path: [number, number][]; // [longitude, latitude] points in shape_pt_sequence order
+  distances: (number | null)[]; // shape_dist_traveled for each point, when published
+}
+
+interface StopSequence {
+  stopId: string;
+  sequence: number;
+  arrivalTime: number | null; // Seconds since the start of the service day
+  departureTime: number | null;
+  shapeDistTraveled: number | null;
+}
+
+export interface PackedPattern {
+  id: string;
+  routeId: string | null;
+  shapeId: string | null; // null when the path was built from stops
+  stopIds: string[];
+}
+
+/**
+ * Compiled routes of a feed, packed for transfer
+ * Patterns and trips index into the shared typed arrays through their offsets;
+ * each trip has one stop time pair per stop of its pattern
+ */
+export interface PackedRoutes {
+  patterns: PackedPattern[];
+  coordinates: Float64Array; // [longitude, latitude] of every pattern path vertex, concatenated
+  pathOffsets: Uint32Array; // First vertex of each pattern, plus a final end offset
+  tripIds: string[];
+  serviceIds: (string | null)[];
+  tripPatterns: Uint32Array; // Pattern index of each trip
+  timestamps: Float64Array; // Per-vertex schedule of every trip, concatenated
+  timestampOffsets: Uint32Array; // First timestamp of each trip, plus a final end offset
+  stopTimes: Float64Array; // Arrival and departure of every trip stop, NaN when untimed
+}
+
+export interface CompiledRoutes {
+  routes: PackedRoutes;
+  // Updated session cache of Directions paths, or null when nothing new was fetched
+  sessionCache: string | null;
+}
+
+/**
+ * Compiles cached trips to map trip_id to route info
+ * @param feedKey - Feed key
+ * @returns Map of trip_id to route, direction and shape info
+ */
+async function compileTrips(feedKey: string): Promise<Map<string, TripInfo>> {
+  const trips = await getFeedTrips(feedKey);
+  const tripToRouteMap = new Map<string, TripInfo>();
+  
+  trips.forEach(trip => {
+    tripToRouteMap.set(trip.tripId, {
+      tripId: trip.tripId,
+      routeId: trip.routeId,
+      serviceId: trip.serviceId,
+      directionId: trip.directionId,
+      shapeId: trip.shapeId,
+    });
+  });
+  
+  return tripToRouteMap;
+}
+
+/**
+ * Compiles cached stop times to get stop sequences for each trip
+ * @param feedKey - Feed key
+ * @returns Map of trip_id to array of stop sequences with times
+ */
+async function compileStopTimes(feedKey: string): Promise<Map<string, StopSequence[]>> {
+  // Records come back ordered by trip_id then stop_sequence, so no sorting is needed
+  const stopTimes = await getFeedStopTimes(feedKey);
+  const tripToStopsMap = new Map<string, StopSequence[]>();
+  
+  stopTimes.forEach(stopTime => {
+    let stops = tripToStopsMap.get(stopTime.tripId);
+    if (!stops) {
+      stops = [];
+      tripToStopsMap.set(stopTime.tripId, stops);
+    }
+    
+    stops.push({
+      stopId: stopTime.stopId,
+      sequence: stopTime.stopSequence,
+      arrivalTime: stopTime.arrivalTime,
+      departureTime: stopTime.departureTime,
+      shapeDistTraveled: stopTime.shapeDistTraveled,
+    });
+  });
+  
+  return tripToStopsMap;
+}
+
+/**
+ * Compiles cached shapes into route geometries
+ * shapes.txt is optional in GTFS, so a feed without it yields an empty map
+ * @param feedKey - Feed key
+ * @returns Map of shape_id to its points, sorted by shape_pt_sequence
+ */
+async function compileShapes(feedKey: string): Promise<Map<string, Shape>> {
+  const shapes = await getFeedShapes(feedKey);
+  return new Map(shapes.map(shape => [shape.shapeId, { path: shape.path, distances: shape.distances }]));
+}
+
+/**
+ * Places a pattern's vertices and stops on a common distance axis
+ * Uses shape_dist_traveled when both the shape and the stop times publish it,
+ * otherwise projects the stops onto the path (in meters)
+ * @param path - Pattern path as [longitude, latitude] coordinates
+ * @param stopPositions - Coordinates of the pattern's stops, in stop_sequence order
+ * @param stopSequences - Stop times of a trip on the pattern
+ * @param shape - Shape the path came from, if any
+ * @returns Distance of each vertex and each stop along the path
+ */
+function measurePatternDistances(
+  path: [number, number][],
+  stopPositions: [number, number][],
+  stopSequences: StopSequence[],
+  shape: Shape | null
+): { vertexDistances: number[]; stopDistances: number[] } {
+  const shapeDistances = shape && shape.path === path && shape.distances.every(d => d !== null)
+    ? shape.distances as number[]
+    : null;
+  
+  if (shapeDistances && stopSequences.every(stop => stop.shapeDistTraveled !== null)) {
+    return {
+      vertexDistances: shapeDistances,
+      stopDistances: stopSequences.map(stop => stop.shapeDistTraveled as number),
+    };
+  }
+  
+  const geometry = buildRouteGeometry(path, stopPositions);
+  return {
+    vertexDistances: geometry.measure.cumulative,
+    stopDistances: geometry.stopDistances,
+  };
+}
+
+/**
+ * Interpolates scheduled times onto every vertex of a trip's path
+ * Vertices between timed stops are interpolated by distance, as GTFS specifies for untimed stops
+ * @param vertexDistances - Distance of each path vertex along the path
+ * @param stopDistances - Distance of each stop along the path
+ * @param stopSequences - Stop times matching stopDistances
+ * @returns Seconds since the start of the service day for each vertex, or [] if no stop is timed
+ */
+function interpolatePathTimestamps(
+  vertexDistances: number[],
+  stopDistances: number[],
+  stopSequences: StopSequence[]
+): number[] {
+  // Arrival and departure both anchor the stop's position, so dwell time stays at the stop
+  const anchors: Array<{ distance: number; time: number }> = [];
+  stopSequences.forEach((stop, index) => {
+    const arrival = stop.arrivalTime ?? stop.departureTime;
+    const departure = stop.departureTime ?? stop.arrivalTime;
+    if (arrival === null || departure === null) {
+      return;
+    }
+    
+    anchors.push({ distance: stopDistances[index], time: arrival });
+    if (departure !== arrival) {
+      anchors.push({ distance: stopDistances[index], time: departure });
+    }
+  });
+  
+  if (anchors.length === 0) {
+    return [];
+  }
+  
+  let anchorIndex = 0;
+  return vertexDistances.map(distance => {
+    while (anchorIndex < anchors.length - 1 && anchors[anchorIndex + 1].distance <= distance) {
+      anchorIndex++;
+    }
+    
+    const from = anchors[anchorIndex];
+    const to = anchors[anchorIndex + 1];
+    if (!to || distance <= from.distance) {
+      return from.time;
+    }
+    
+    const span = to.distance - from.distance;
+    const t = span > 0 ? Math.min(1, (distance - from.distance) / span) : 0;
+    return from.time + (to.time - from.time) * t;
+  });
+}
+
+/**
+ * Simple 32-bit string hash, rendered in base 36
+ */
+function hashString(value: string): string {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Groups trips into patterns: trips on the same route and direction that serve
+ * the same stops in the same order share one geometry
+ * @param stopsMap - Map of stop_id to stop coordinates
+ * @param tripToStopsMap - Map of trip_id to stop sequences
+ * @param tripToRouteMap - Map of trip_id to route info
+ * @returns Patterns keyed by their grouping key, and each trip's stops that have coordinates
+ */
+function groupTripsIntoPatterns(
+  stopsMap: Map<string, { latitude: number; longitude: number }>,
+  tripToStopsMap: Map<string, StopSequence[]>,
+  tripToRouteMap: Map<string, TripInfo>
+): { patterns: Map<string, RoutePattern>; tripStopsMap: Map<string, StopSequence[]> } {
+  const patterns = new Map<string, RoutePattern>();
+  const tripStopsMap = new Map<string, StopSequence[]>();
+  const usedIds = new Set<string>();
+  
+  tripToStopsMap.forEach((stopSequences, tripId) => {
+    // Get route info for this trip
+    const routeInfo = tripToRouteMap.get(tripId) || { tripId, routeId: null, serviceId: null, directionId: null, shapeId: null };
+    
+    // Keep only stops with known coordinates
+    const tripStops = stopSequences.filter(stopSeq => stopsMap.has(stopSeq.stopId));
+    tripStopsMap.set(tripId, tripStops);
+    
+    const stopIds = tripStops.map(stop => stop.stopId);
+    const key = JSON.stringify([routeInfo.routeId, routeInfo.directionId, stopIds]);
+    
+    let pattern = patterns.get(key);
+    if (!pattern) {
+      // Readable, stable ID; the hash only needs to separate patterns of one route and direction
+      let id = `${routeInfo.routeId ?? 'unknown'}:${routeInfo.directionId ?? '-'}:${hashString(key)}`;
+      while (usedIds.has(id)) {
+        id += '+';
+      }
+      usedIds.add(id);
+      
+      pattern = {
+        id,
+        key,
+        routeId: routeInfo.routeId,
+        shapeId: null,
+        waypoints: stopIds.map(stopId => {
+          const stop = stopsMap.get(stopId)!;
+          return { lat: stop.latitude, lng: stop.longitude };
+        }),
+        stopIds,
+        tripIds: [],
+      };
+      patterns.set(key, pattern);
+    }
+    
+    pattern.tripIds.push(tripId);
+    // Any trip's shape will do; trips on one pattern follow the same streets
+    if (!pattern.shapeId && routeInfo.shapeId) {
+      pattern.shapeId = routeInfo.shapeId;
+    }
+  });
+  
+  return { patterns, tripStopsMap };
+}
+
+/**
+ * Creates route paths from stops and stop sequences
+ * Trips are first grouped into patterns so each distinct path is computed once.
+ * Patterns with a shape in shapes.txt use it as their path; the rest fall back to
+ * Google Routes API road-following paths, cached per browser session
+ * @param stops - Cached stops of the feed
+ * @param tripToStopsMap - Map of trip_id to stop sequences
+ * @param tripToRouteMap - Map of trip_id to route info
+ * @param shapes - Map of shape_id to shape geometry
+ * @param sessionCache - Serialized Directions paths from earlier loads this session
+ * @param onProgress - Optional progress callback
+ * @param signal - Optional signal that aborts the Directions requests
+ * @returns Promise resolving to the packed routes and the updated session cache
+ */
+async function compileRoutesFromStops(
+  stops: StoredStop[],
+  tripToStopsMap: Map<string, StopSequence[]>,
+  tripToRouteMap: Map<string, TripInfo>,
+  shapes: Map<string, Shape>,
+  sessionCache: string | null,
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<CompiledRoutes> {
+  // Import Google Routes API service
+  const { getRoutePath } = await import('./googleRoutes');
+  
+  // Create a map of stop_id to stop coordinates for quick lookup
+  const stopsMap = new Map<string, { latitude: number; longitude: number }>();
+  stops.forEach(stop => {
+    stopsMap.set(stop.stopId, {
+      latitude: stop.latitude,
+      longitude: stop.longitude,
+    });
+  });
+  
+  const { patterns, tripStopsMap } = groupTripsIntoPatterns(stopsMap, tripToStopsMap, tripToRouteMap);
+  console.log(`Grouped ${tripToStopsMap.size} trips into ${patterns.size} route patterns`);
+  
+  let cachedPaths: Map<string, [number, number][]> | null = null;
+  
+  try {
+    if (sessionCache) {
+      cachedPaths = new Map(JSON.parse(sessionCache));
+      console.log(`Loaded ${cachedPaths.size} cached route paths from session`);
+    }
+  } catch (error) {
+    console.warn('Error loading cached routes:', error);
+  }
+  
+  const patternPaths = new Map<string, [number, number][]>();
+  const patternsToFetch: RoutePattern[] = [];
+  
+  // Prepare pattern paths
+  patterns.forEach((pattern, key) => {
+    // Published shapes are authoritative, so no Directions request is needed
+    const shape = pattern.shapeId ? shapes.get(pattern.shapeId) : undefined;
+    if (shape && shape.path.length >= 2) {
+      patternPaths.set(key, shape.path);
+      return;
+    }
+    pattern.shapeId = null;
+    
+    // Check cache next
+    const cachedPath = cachedPaths?.get(key);
+    if (cachedPath) {
+      patternPaths.set(key, cachedPath);
+      return;
+    }
+    
+    // Only process patterns with at least 2 stops
+    if (pattern.waypoints.length >= 2) {
+      patternsToFetch.push(pattern);
+    }
+  });
+  
+  // Fetch pattern paths using Google Routes API
+  let updatedCache: string | null = null;
+  if (patternsToFetch.length > 0) {
+    console.log(`Fetching ${patternsToFetch.length} route patterns from Google Routes API...`);
+    
+    const fetchedPaths: Array<[string, [number, number][]]> = [];
+    let processed = 0;
+    for (const pattern of patternsToFetch) {
+      let path: [number, number][];
+      try {
+        path = await getRoutePath(pattern.waypoints, signal);
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        console.warn(`Error fetching route for pattern ${pattern.id}:`, error);
+        // Fallback to straight line
+        path = pattern.waypoints.map(wp => [wp.lng, wp.lat]);
+      }
+      
+      patternPaths.set(pattern.key, path);
+      fetchedPaths.push([pattern.key, path]);
+      processed++;
+      
+      if (onProgress) {
+        onProgress(processed, patternsToFetch.length);
+      }
+    }
+    
+    updatedCache = JSON.stringify([...(cachedPaths ?? new Map()), ...fetchedPaths]);
+  }
+  
+  return { routes: packRoutes(patterns, patternPaths, tripStopsMap, tripToRouteMap, shapes), sessionCache: updatedCache };
+}
+
+/**
+ * Packs patterns and their trips into typed arrays
+ * Computes each trip's per-vertex schedule on the way
+ */
+function packRoutes(
+  patterns: Map<string, RoutePattern>,
+  patternPaths: Map<string, [number, number][]>,
+  tripStopsMap: Map<string, StopSequence[]>,
+  tripToRouteMap: Map<string, TripInfo>,
+  shapes: Map<string, Shape>
+): PackedRoutes {
+  const packedPatterns: PackedPattern[] = [];
+  const coordinates: number[] = [];
+  const pathOffsets: number[] = [];
+  const tripIds: string[] = [];
+  const serviceIds: (string | null)[] = [];
+  const tripPatterns: number[] = [];
+  const timestamps: number[] = [];
+  const timestampOffsets: number[] = [];
+  const stopTimes: number[] = [];
+  
+  patterns.forEach((pattern, key) => {
+    const path = patternPaths.get(key);
+    if (!path) {
+      return;
+    }
+    
+    const patternIndex = packedPatterns.length;
+    packedPatterns.push({ id: pattern.id, routeId: pattern.routeId, shapeId: pattern.shapeId, stopIds: pattern.stopIds });
+    pathOffsets.push(coordinates.length / 2);
+    path.forEach(([longitude, latitude]) => coordinates.push(longitude, latitude));
+    
+    const shape = pattern.shapeId ? shapes.get(pattern.shapeId) ?? null : null;
+    const stopPositions: [number, number][] = pattern.waypoints.map(wp => [wp.lng, wp.lat]);
+    const { vertexDistances, stopDistances } = measurePatternDistances(
+      path,
+      stopPositions,
+      tripStopsMap.get(pattern.tripIds[0])!,
+      shape
+    );
+    
+    for (const tripId of pattern.tripIds) {
+      const tripStops = tripStopsMap.get(tripId)!;
+      tripIds.push(tripId);
+      serviceIds.push(tripToRouteMap.get(tripId)?.serviceId ?? null);
+      tripPatterns.push(patternIndex);
+      timestampOffsets.push(timestamps.length);
+      timestamps.push(...interpolatePathTimestamps(vertexDistances, stopDistances, tripStops));
+      tripStops.forEach(stop => stopTimes.push(stop.arrivalTime ?? NaN, stop.departureTime ?? NaN));
+    }
+  });
+  
+  pathOffsets.push(coordinates.length / 2);
+  timestampOffsets.push(timestamps.length);
+  
+  return {
+    patterns: packedPatterns,
+    coordinates: Float64Array.from(coordinates),
+    pathOffsets: Uint32Array.from(pathOffsets),
+    tripIds,
+    serviceIds,
+    tripPatterns: Uint32Array.from(tripPatterns),
+    timestamps: Float64Array.from(timestamps),
+    timestampOffsets: Uint32Array.from(timestampOffsets),
+    stopTimes: Float64Array.from(stopTimes),
+  };
+}
+
+/**
+ * Lists the typed array buffers of packed routes, for a postMessage transfer list
+ */
+export function getPackedRoutesTransferables(routes: PackedRoutes): ArrayBuffer[] {
+  return [
+    routes.coordinates,
+    routes.pathOffsets,
+    routes.tripPatterns,
+    routes.timestamps,
+    routes.timestampOffsets,
+    routes.stopTimes,
+  ].map(array => array.buffer as ArrayBuffer);
+}
+
+/**
+ * Compiles the routes of a cached feed
+ * Uses shapes.txt where available and Google Routes API road-following paths otherwise
+ * @param feedKey - Feed key; the feed must already be in the cache
+ * @param sessionCache - Serialized Directions paths from earlier loads this session
+ * @param onProgress - Optional progress callback
+ * @param signal - Optional abort signal
+ * @returns Promise resolving to the packed routes, empty if the feed lacks trips or stops
+ * @throws The abort reason if the signal aborts
+ */
+export async function compileFeedRoutes(
+  feedKey: string,
+  sessionCache: string | null,
+  onProgress?: (current: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<CompiledRoutes> {
+  // Load stops and compile trips and stop sequences from cache
+  const [stops, tripToRouteMap, tripToStopsMap, shapes] = await Promise.all([
+    getFeedStops(feedKey),
+    compileTrips(feedKey),
+    compileStopTimes(feedKey),
+    compileShapes(feedKey),
+  ]);
+  signal?.throwIfAborted();
+  
+  // If we don't have the required files, return no routes
+  if (tripToStopsMap.size === 0 || stops.length === 0) {
+    console.warn('Missing required GTFS files (trips.txt, stop_times.txt) or stops data');
+    return { routes: packRoutes(new Map(), new Map(), new Map(), new Map(), new Map()), sessionCache: null };
+  }
+  
+  // Build routes from shapes, falling back to Google Routes API
+  return await compileRoutesFromStops(stops, tripToStopsMap, tripToRouteMap, shapes, sessionCache, onProgress, signal);
+}
@@ -0,0 +1,157 @@
+/**
+ * GTFS service calendar
+ * Resolves which service_ids run on a given service date from calendar.txt
+ * (weekly patterns within a date range) and calendar_dates.txt (added and
+ * removed dates, e.g. public holidays)
+ */
+
+import type { CSVRecord } from './csvParser';
+
+interface WeeklyService {
+  days: boolean[]; // Indexed by day of week, 0 = Sunday
+  startDate: string; // "YYYYMMDD", inclusive
+  endDate: string; // "YYYYMMDD", inclusive
+}
+
+export interface ServiceCalendar {
+  weekly: Map<string, WeeklyService>;
+  // service_id -> date -> true when service is added on that date, false when removed
+  exceptions: Map<string, Map<string, boolean>>;
+}
+
+// calendar.txt day columns, in Date.getUTCDay() order
+const DAY_COLUMNS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// calendar_dates.txt exception_type values
+const EXCEPTION_ADDED = 1;
+const EXCEPTION_REMOVED = 2;
+
+/**
+ * Creates an empty service calendar
+ */
+export function createServiceCalendar(): ServiceCalendar {
+  return {
+    weekly: new Map(),
+    exceptions: new Map(),
+  };
+}
+
+/**
+ * Adds a calendar.txt row to a calendar
+ * @param calendar - Calendar to add to
+ * @param record - Row from calendar.txt
+ */
+export function addCalendarRecord(calendar: ServiceCalendar, record: CSVRecord): void {
+  const serviceId = record.get('service_id');
+  if (!serviceId) {
+    return;
+  }
+
+  calendar.weekly.set(serviceId, {
+    days: DAY_COLUMNS.map(column => record.get(column) === '1'),
+    startDate: record.get('start_date'),
+    endDate: record.get('end_date'),
+  });
+}
+
+/**
+ * Adds a calendar_dates.txt row to a calendar
+ * @param calendar - Calendar to add to
+ * @param record - Row from calendar_dates.txt
+ */
+export function addCalendarDateRecord(calendar: ServiceCalendar, record: CSVRecord): void {
+  const serviceId = record.get('service_id');
+  const date = record.get('date');
+  const exceptionType = record.getInt('exception_type');
+  if (!serviceId || !date || (exceptionType !== EXCEPTION_ADDED && exceptionType !== EXCEPTION_REMOVED)) {
+    return;
+  }
+
+  let dates = calendar.exceptions.get(serviceId);
+  if (!dates) {
+    dates = new Map();
+    calendar.exceptions.set(serviceId, dates);
+  }
+  dates.set(date, exceptionType === EXCEPTION_ADDED);
+}
+
+/**
+ * Checks whether a calendar has any service information
+ * Feeds without calendar.txt or calendar_dates.txt cannot be filtered
+ */
+export function hasServiceInformation(calendar: ServiceCalendar): boolean {
+  return calendar.weekly.size > 0 || calendar.exceptions.size > 0;
+}
+
+/**
+ * Gets the day of week of a service date
+ * @param serviceDate - Service date as "YYYYMMDD"
+ * @returns 0 = Sunday ... 6 = Saturday, or null if malformed
+ */
+function getDayOfWeek(serviceDate: string): number | null {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(serviceDate);
+  if (!match) {
+    return null;
+  }
+  return new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10))).getUTCDay();
+}
+
+/**
+ * Checks whether a service runs on a date
+ * calendar_dates.txt exceptions take precedence over the weekly pattern
+ * @param calendar - Service calendar
+ * @param serviceId - service_id from trips.txt
+ * @param serviceDate - Service date as "YYYYMMDD"
+ * @returns True if the service operates on that date
+ */
+export function isServiceActive(calendar: ServiceCalendar, serviceId: string, serviceDate: string): boolean {
+  const exception = calendar.exceptions.get(serviceId)?.get(serviceDate);
+  if (exception !== undefined) {
+    return exception;
+  }
+
+  const weekly = calendar.weekly.get(serviceId);
+  if (!weekly || serviceDate < weekly.startDate || serviceDate > weekly.endDate) {
+    return false;
+  }
+
+  const dayOfWeek = getDayOfWeek(serviceDate);
+  return dayOfWeek !== null && weekly.days[dayOfWeek];
+}
+
+/**
+ * Checks whether a trip runs on a date
+ * Trips are kept when the feed has no service information, and when they have
+ * no service_id to look up (the feed report lists those)
+ * @param calendar - Service calendar of the trip's feed, if known
+ * @param serviceId - service_id of the trip
+ * @param serviceDate - Service date as "YYYYMMDD"
+ * @returns False only if the calendar says the trip's service does not run
+ */
+export function isTripServiceActive(
+  calendar: ServiceCalendar | null | undefined,
+  serviceId: string | null,
+  serviceDate: string
+): boolean {
+  if (!calendar || !hasServiceInformation(calendar) || !serviceId) {
+    return true;
+  }
+  return isServiceActive(calendar, serviceId, serviceDate);
+}
+
+/**
+ * Gets every service_id that runs on a date
+ * @param calendar - Service calendar
+ * @param serviceDate - Service date as "YYYYMMDD"
+ * @returns Set of active service_ids
+ */
+export function getActiveServiceIds(calendar: ServiceCalendar, serviceDate: string): Set<string> {
+  const serviceIds = new Set<string>([...calendar.weekly.keys(), ...calendar.exceptions.keys()]);
+  const active = new Set<string>();
+  serviceIds.forEach(serviceId => {
+    if (isServiceActive(calendar, serviceId, serviceDate)) {
+      active.add(serviceId);
+    }
+  });
+  return active;
+}
@@ -0,0 +1,383 @@
+/**
+ * Spatial index
+ * Uniform grid over stops or route segments with nearest-neighbour, radius and
+ * bounding-box queries. A query only looks at the few cells around it instead
+ * of every stop or route vertex, which matters once every agency's feed is
+ * loaded and there are tens of thousands of stops.
+ */
+
+import { haversineDistance, projectOntoSegment } from './geometry';
+import type { LngLat } from './geometry';
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface SpatialMatch<T> {
+  item: T;
+  point: LngLat; // Closest point of the item to the query
+  distance: number; // Meters from the query point
+}
+
+export interface NearestOptions<T> {
+  limit?: number; // Number of results (defaults to 1)
+  maxDistance?: number; // Meters (defaults to no limit)
+  filter?: (item: T) => boolean;
+}
+
+export interface SpatialIndex<T> {
+  size: number; // Number of indexed entries
+  nearest(point: LngLat, options?: NearestOptions<T>): SpatialMatch<T>[];
+  withinRadius(point: LngLat, radius: number, filter?: (item: T) => boolean): SpatialMatch<T>[];
+  inBounds(bounds: BoundingBox, filter?: (item: T) => boolean): T[];
+}
+
+// One segment of an indexed path
+export interface PathSegment<T> {
+  item: T;
+  segmentIndex: number; // Index of the segment's first vertex in the path
+}
+
+// What the grid needs to know about its entries
+interface GridEntries<T> {
+  count: number;
+  bounds: Float64Array; // west, south, east, north of each entry
+  getItem: (index: number) => T;
+  measure: (index: number, point: LngLat) => { point: LngLat; distance: number };
+}
+
+const DEFAULT_CELL_SIZE = 250; // meters
+
+const METERS_PER_DEGREE = 111195; // Along a meridian
+const DEG_TO_RAD = Math.PI / 180;
+
+// Cell coordinates are packed into one number for the cell map
+const CELL_OFFSET = 2 ** 19;
+const CELL_SPAN = 2 ** 20;
+
+/**
+ * Indexes items at a single position, such as stops
+ * @param items - Items to index (items without a valid position are skipped)
+ * @param getPosition - [longitude, latitude] of an item
+ * @param cellSize - Grid cell size in meters
+ * @returns Spatial index over the items
+ */
+export function createPointIndex<T>(
+  items: readonly T[],
+  getPosition: (item: T) => LngLat,
+  cellSize: number = DEFAULT_CELL_SIZE
+): SpatialIndex<T> {
+  const indexed: T[] = [];
+  const positions: LngLat[] = [];
+  items.forEach(item => {
+    const position = getPosition(item);
+    if (isValidPosition(position)) {
+      indexed.push(item);
+      positions.push(position);
+    }
+  });
+
+  const bounds = new Float64Array(positions.length * 4);
+  positions.forEach(([lng, lat], i) => {
+    bounds.set([lng, lat, lng, lat], i * 4);
+  });
+
+  return createGridIndex<T>({
+    count: positions.length,
+    bounds,
+    getItem: index => indexed[index],
+    measure: (index, point) => {
+      const position = positions[index];
+      return { point: position, distance: haversineDistance(point[1], point[0], position[1], position[0]) };
+    },
+  }, cellSize);
+}
+
+/**
+ * Indexes every segment of items with a path, such as route patterns
+ * @param items - Items to index
+ * @param getPath - [longitude, latitude] path of an item
+ * @param cellSize - Grid cell size in meters
+ * @returns Spatial index over the segments, which may return several segments of the same item
+ */
+export function createSegmentIndex<T>(
+  items: readonly T[],
+  getPath: (item: T) => LngLat[],
+  cellSize: number = DEFAULT_CELL_SIZE
+): SpatialIndex<PathSegment<T>> {
+  const paths = items.map(getPath);
+
+  let count = 0;
+  paths.forEach(path => {
+    count += Math.max(0, path.length - 1);
+  });
+
+  const itemIndexes = new Uint32Array(count);
+  const segmentIndexes = new Uint32Array(count);
+  const bounds = new Float64Array(count * 4);
+
+  let entry = 0;
+  paths.forEach((path, itemIndex) => {
+    for (let i = 0; i < path.length - 1; i++) {
+      const a = path[i];
+      const b = path[i + 1];
+      if (!isValidPosition(a) || !isValidPosition(b)) {
+        continue;
+      }
+      itemIndexes[entry] = itemIndex;
+      segmentIndexes[entry] = i;
+      bounds.set([Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[0], b[0]), Math.max(a[1], b[1])], entry * 4);
+      entry++;
+    }
+  });
+
+  return createGridIndex<PathSegment<T>>({
+    count: entry,
+    bounds,
+    getItem: index => ({ item: items[itemIndexes[index]], segmentIndex: segmentIndexes[index] }),
+    measure: (index, point) => {
+      const path = paths[itemIndexes[index]];
+      const segmentIndex = segmentIndexes[index];
+      const projection = projectOntoSegment(path[segmentIndex], path[segmentIndex + 1], point);
+      return { point: projection.point, distance: projection.offset };
+    },
+  }, cellSize);
+}
+
+/**
+ * Checks that a coordinate can be placed on the grid
+ */
+function isValidPosition(position: LngLat | undefined): boolean {
+  return !!position &&
+    Number.isFinite(position[0]) && Number.isFinite(position[1]) &&
+    !(position[0] === 0 && position[1] === 0);
+}
+
+/**
+ * Builds the grid and its queries
+ * Cells are square at the mean latitude of the entries; entries spanning
+ * several cells (long segments) are listed in each of them
+ * @param entries - Entry bounds, items and distance function
+ * @param cellSize - Grid cell size in meters
+ * @returns Spatial index
+ */
+function createGridIndex<T>(entries: GridEntries<T>, cellSize: number): SpatialIndex<T> {
+  const { count, bounds } = entries;
+
+  let latitudeSum = 0;
+  for (let i = 0; i < count; i++) {
+    latitudeSum += (bounds[i * 4 + 1] + bounds[i * 4 + 3]) / 2;
+  }
+  const referenceLatitude = count > 0 ? latitudeSum / count : 0;
+
+  const cellHeight = cellSize / METERS_PER_DEGREE;
+  const cellWidth = cellSize / (METERS_PER_DEGREE * Math.max(0.01, Math.cos(referenceLatitude * DEG_TO_RAD)));
+
+  const toCellX = (lng: number) => Math.floor(lng / cellWidth);
+  const toCellY = (lat: number) => Math.floor(lat / cellHeight);
+  const toKey = (x: number, y: number) => (x + CELL_OFFSET) * CELL_SPAN + (y + CELL_OFFSET);
+
+  const cells = new Map<number, number[]>();
+  let minCellX = Infinity;
+  let minCellY = Infinity;
+  let maxCellX = -Infinity;
+  let maxCellY = -Infinity;
+
+  for (let i = 0; i < count; i++) {
+    const x0 = toCellX(bounds[i * 4]);
+    const y0 = toCellY(bounds[i * 4 + 1]);
+    const x1 = toCellX(bounds[i * 4 + 2]);
+    const y1 = toCellY(bounds[i * 4 + 3]);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        const key = toKey(x, y);
+        const cell = cells.get(key);
+        if (cell) {
+          cell.push(i);
+        } else {
+          cells.set(key, [i]);
+        }
+      }
+    }
+    minCellX = Math.min(minCellX, x0);
+    minCellY = Math.min(minCellY, y0);
+    maxCellX = Math.max(maxCellX, x1);
+    maxCellY = Math.max(maxCellY, y1);
+  }
+
+  // Marks entries already seen by the current query, so multi-cell entries are reported once
+  const seen = new Uint32Array(count);
+  let queryStamp = 0;
+  const nextStamp = () => {
+    if (queryStamp === 0xffffffff) {
+      seen.fill(0);
+      queryStamp = 0;
+    }
+    return ++queryStamp;
+  };
+
+  /**
+   * Calls back once for each entry listed in the cells overlapping a box
+   */
+  const forEachCandidate = (box: BoundingBox, callback: (index: number) => void) => {
+    const stamp = nextStamp();
+    const x0 = Math.max(toCellX(box.west), minCellX);
+    const y0 = Math.max(toCellY(box.south), minCellY);
+    const x1 = Math.min(toCellX(box.east), maxCellX);
+    const y1 = Math.min(toCellY(box.north), maxCellY);
+    if (x0 > x1 || y0 > y1) {
+      return;
+    }
+
+    const visit = (cell: number[] | undefined) => {
+      cell?.forEach(index => {
+        if (seen[index] !== stamp) {
+          seen[index] = stamp;
+          callback(index);
+        }
+      });
+    };
+
+    // Large boxes are cheaper to answer from the occupied cells
+    if ((x1 - x0 + 1) * (y1 - y0 + 1) > cells.size) {
+      cells.forEach((cell, key) => {
+        const x = Math.floor(key / CELL_SPAN) - CELL_OFFSET;
+        const y = (key % CELL_SPAN) - CELL_OFFSET;
+        if (x >= x0 && x <= x1 && y >= y0 && y <= y1) {
+          visit(cell);
+        }
+      });
+      return;
+    }
+
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        visit(cells.get(toKey(x, y)));
+      }
+    }
+  };
+
+  const nearest = (point: LngLat, options: NearestOptions<T> = {}): SpatialMatch<T>[] => {
+    const limit = options.limit ?? 1;
+    const maxDistance = options.maxDistance ?? Infinity;
+    if (count === 0 || limit <= 0 || !isValidPosition(point)) {
+      return [];
+    }
+
+    const stamp = nextStamp();
+    const results: SpatialMatch<T>[] = [];
+
+    const centerX = toCellX(point[0]);
+    const centerY = toCellY(point[1]);
+    // Smallest cell side at the query latitude, so ring distances are never overestimated
+    const cellMeters = Math.min(
+      cellHeight * METERS_PER_DEGREE,
+      cellWidth * METERS_PER_DEGREE * Math.cos(point[1] * DEG_TO_RAD)
+    );
+    const lastRing = Math.min(
+      Math.max(centerX - minCellX, maxCellX - centerX, centerY - minCellY, maxCellY - centerY),
+      Number.isFinite(maxDistance) ? Math.ceil(maxDistance / cellMeters) + 1 : Infinity
+    );
+
+    const visit = (x: number, y: number) => {
+      cells.get(toKey(x, y))?.forEach(index => {
+        if (seen[index] === stamp) {
+          return;
+        }
+        seen[index] = stamp;
+        const measured = entries.measure(index, point);
+        if (measured.distance > maxDistance) {
+          return;
+        }
+        if (results.length === limit && measured.distance >= results[limit - 1].distance) {
+          return;
+        }
+        const item = entries.getItem(index);
+        if (options.filter && !options.filter(item)) {
+          return;
+        }
+        results.push({ item, point: measured.point, distance: measured.distance });
+        results.sort((a, b) => a.distance - b.distance);
+        if (results.length > limit) {
+          results.pop();
+        }
+      });
+    };
+
+    // Rings closer than the grid itself are empty
+    const firstRing = Math.max(0, minCellX - centerX, centerX - maxCellX, minCellY - centerY, centerY - maxCellY);
+
+    for (let ring = firstRing; ring <= lastRing; ring++) {
+      // Everything not yet seen is at least (ring - 1) cells away
+      if (results.length === limit && results[limit - 1].distance <= (ring - 1) * cellMeters) {
+        break;
+      }
+      if (ring === 0) {
+        visit(centerX, centerY);
+        continue;
+      }
+      // Walk the ring's sides, clipped to the occupied part of the grid
+      const x0 = Math.max(centerX - ring, minCellX);
+      const x1 = Math.min(centerX + ring, maxCellX);
+      const y0 = Math.max(centerY - ring + 1, minCellY);
+      const y1 = Math.min(centerY + ring - 1, maxCellY);
+      for (let x = x0; x <= x1; x++) {
+        visit(x, centerY - ring);
+        visit(x, centerY + ring);
+      }
+      for (let y = y0; y <= y1; y++) {
+        visit(centerX - ring, y);
+        visit(centerX + ring, y);
+      }
+    }
+
+    return results;
+  };
+
+  const withinRadius = (point: LngLat, radius: number, filter?: (item: T) => boolean): SpatialMatch<T>[] => {
+    if (count === 0 || radius < 0 || !isValidPosition(point)) {
+      return [];
+    }
+
+    const dLat = radius / METERS_PER_DEGREE;
+    const dLng = radius / (METERS_PER_DEGREE * Math.max(0.01, Math.cos(point[1] * DEG_TO_RAD)));
+    const results: SpatialMatch<T>[] = [];
+
+    forEachCandidate(
+      { west: point[0] - dLng, south: point[1] - dLat, east: point[0] + dLng, north: point[1] + dLat },
+      index => {
+        const measured = entries.measure(index, point);
+        if (measured.distance > radius) {
+          return;
+        }
+        const item = entries.getItem(index);
+        if (!filter || filter(item)) {
+          results.push({ item, point: measured.point, distance: measured.distance });
+        }
+      }
+    );
+
+    return results.sort((a, b) => a.distance - b.distance);
+  };
+
+  const inBounds = (box: BoundingBox, filter?: (item: T) => boolean): T[] => {
+    const results: T[] = [];
+    forEachCandidate(box, index => {
+      const offset = index * 4;
+      if (bounds[offset + 2] < box.west || bounds[offset] > box.east ||
+          bounds[offset + 3] < box.south || bounds[offset + 1] > box.north) {
+        return;
+      }
+      const item = entries.getItem(index);
+      if (!filter || filter(item)) {
+        results.push(item);
+      }
+    });
+    return results;
+  };
+
+  return { size: count, nearest, withinRadius, inBounds };
+}
@@ -0,0 +1,132 @@
+/**
+ * Station hierarchy
+ * Groups stops.txt records into stations using location_type and
+ * parent_station: a station (location_type 1) owns its platforms (0) and
+ * entrances (2), and each platform owns its boarding areas (4). Rail feeds
+ * publish every platform as a separate stop, so the map shows one marker per
+ * station and only lists platforms once it is opened.
+ */
+
+import type { Stop } from './gtfsStatic';
+
+export interface Station {
+  stop: Stop; // The location_type 1 record
+  platforms: Stop[]; // Stops and platforms whose parent is the station
+  entrances: Stop[];
+  boardingAreas: Stop[]; // Boarding areas of the station's platforms
+}
+
+export interface StopHierarchy {
+  stations: Map<string, Station>; // Keyed by station stop_id
+  stationByStopId: Map<string, Station>; // The station of every stop in it, including itself
+  standaloneStops: Stop[]; // Stops and platforms without a parent station
+}
+
+/**
+ * Groups stops into stations
+ * Children whose parent_station is missing or not a station are kept as standalone stops
+ * @param stops - Stops from stops.txt
+ * @returns Stations and the stops outside any station
+ */
+export function buildStopHierarchy(stops: Stop[]): StopHierarchy {
+  const stations = new Map<string, Station>();
+  const stationByStopId = new Map<string, Station>();
+  const standaloneStops: Stop[] = [];
+
+  stops.forEach(stop => {
+    if (stop.locationType === 'station') {
+      const station: Station = { stop, platforms: [], entrances: [], boardingAreas: [] };
+      stations.set(stop.id, station);
+      stationByStopId.set(stop.id, station);
+    }
+  });
+
+  // Platforms and entrances first, so boarding areas can find their platform's station
+  const boardingAreas: Stop[] = [];
+  stops.forEach(stop => {
+    if (stop.locationType === 'station' || stop.locationType === 'node') {
+      return;
+    }
+    if (stop.locationType === 'boarding-area') {
+      boardingAreas.push(stop);
+      return;
+    }
+
+    const station = stop.parentStationId ? stations.get(stop.parentStationId) : undefined;
+    if (!station) {
+      if (stop.locationType === 'stop') {
+        standaloneStops.push(stop);
+      }
+      return;
+    }
+
+    if (stop.locationType === 'entrance') {
+      station.entrances.push(stop);
+    } else {
+      station.platforms.push(stop);
+    }
+    stationByStopId.set(stop.id, station);
+  });
+
+  boardingAreas.forEach(stop => {
+    const station = stop.parentStationId ? stationByStopId.get(stop.parentStationId) : undefined;
+    if (station) {
+      station.boardingAreas.push(stop);
+      stationByStopId.set(stop.id, station);
+    }
+  });
+
+  // Platforms in platform_code order, falling back to name
+  stations.forEach(station => {
+    station.platforms.sort((a, b) =>
+      (a.platformCode ?? a.name).localeCompare(b.platformCode ?? b.name, undefined, { numeric: true })
+    );
+  });
+
+  return { stations, stationByStopId, standaloneStops };
+}
+
+/**
+ * Resolves whether a stop is wheelchair accessible
+ * Platforms and entrances without their own value inherit the station's
+ * @param stop - Stop to check
+ * @param hierarchy - Stop hierarchy
+ * @returns True if accessible, false if not, null if unknown
+ */
+export function getWheelchairBoarding(stop: Stop, hierarchy: StopHierarchy): boolean | null {
+  if (stop.wheelchairBoarding !== null) {
+    return stop.wheelchairBoarding;
+  }
+  return hierarchy.stationByStopId.get(stop.id)?.stop.wheelchairBoarding ?? null;
+}
+
+/**
+ * Collects the routes serving each station and standalone stop
+ * @param hierarchy - Stop hierarchy
+ * @param routes - Trips or patterns with their route and stops
+ * @returns Map of station stop_id (or stop_id for stops outside stations) to route_ids
+ */
+export function collectServingRoutes(
+  hierarchy: StopHierarchy,
+  routes: Array<{ routeId: string | null; stopIds: string[] }>
+): Map<string, Set<string>> {
+  const servingRoutes = new Map<string, Set<string>>();
+
+  routes.forEach(route => {
+    if (!route.routeId) {
+      return;
+    }
+
+    route.stopIds.forEach(stopId => {
+      const key = hierarchy.stationByStopId.get(stopId)?.stop.id ?? stopId;
+      let routeIds = servingRoutes.get(key);
+      if (!routeIds) {
+        routeIds = new Set();
+        servingRoutes.set(key, routeIds);
+      }
+      routeIds.add(route.routeId!);
+    });
+  });
+
+  return servingRoutes;
+}
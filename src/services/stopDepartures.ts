@@ -0,0 +1,177 @@
+/**
+ * Stop departure boards
+ * Lists the next scheduled departures from a stop using timetable queries,
+ * then overlays GTFS Realtime predictions and the positions of vehicles
+ * already running the trip.
+ */
+
+import { getStopTimesForTrips } from './gtfsDatabase';
+import { getStopTimePrediction } from './gtfsRealtime';
+import type { TripUpdatesIndex, Vehicle } from './gtfsRealtime';
+import type { Timetable } from './timetable';
+
+export type DepartureStatus = 'scheduled' | 'predicted' | 'cancelled' | 'skipped';
+
+export interface DepartureVehicle {
+  id: string;
+  label: string | null;
+  stopsAway: number; // Stops until this one; 0 when at or approaching it
+  atStop: boolean; // Stopped at this stop rather than approaching it
+}
+
+export interface Departure {
+  feedKey: string;
+  tripId: string;
+  routeId: string | null;
+  headsign: string | null; // trip_headsign, or the name of the trip's last stop
+  stopId: string; // Stop or platform the trip departs from
+  stopSequence: number;
+  serviceDate: string; // "YYYYMMDD" the trip runs on
+  scheduledTime: number; // POSIX seconds
+  predictedTime: number | null; // From trip updates, when available
+  delay: number | null; // Seconds late (negative = early)
+  status: DepartureStatus;
+  vehicle: DepartureVehicle | null;
+  tripStopSequences: number[]; // stop_sequence of every stop on the trip, to count stops to a vehicle
+}
+
+export interface DepartureOptions {
+  now?: number; // POSIX seconds (defaults to now)
+  limit?: number; // Maximum number of departures
+  windowSeconds?: number; // How far ahead to look
+}
+
+const DEFAULT_LIMIT = 10;
+const DEFAULT_WINDOW_SECONDS = 3 * 60 * 60;
+
+// Departures stay listed this long after their time, since buses are rarely early
+const DEPARTED_GRACE_SECONDS = 60;
+
+// Trips scheduled this long ago are still fetched, in case they are running late
+const LATE_LOOKBACK_SECONDS = 30 * 60;
+
+/**
+ * Fetches the next scheduled departures from one or more stops
+ * Recently scheduled trips are included on top of the limit, so
+ * applyRealtimeToDepartures can keep the ones running late.
+ * @param timetable - Timetable of the feed the stops belong to
+ * @param stopIds - Stops to list, e.g. every platform of a station
+ * @param options - Time, limit and look-ahead window
+ * @returns Departures in scheduled time order
+ */
+export async function fetchScheduledDepartures(
+  timetable: Timetable,
+  stopIds: string[],
+  options: DepartureOptions = {}
+): Promise<Departure[]> {
+  const now = options.now ?? Date.now() / 1000;
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const windowEnd = now + (options.windowSeconds ?? DEFAULT_WINDOW_SECONDS);
+
+  const scheduled = await timetable.getDepartures(stopIds, now - LATE_LOOKBACK_SECONDS, windowEnd);
+  const upcomingStart = scheduled.findIndex(departure => departure.departureTime >= now - DEPARTED_GRACE_SECONDS);
+  const selected = upcomingStart === -1 ? scheduled : scheduled.slice(0, upcomingStart + limit);
+
+  const tripStopTimes = await getStopTimesForTrips(
+    timetable.feedKey,
+    Array.from(new Set(selected.map(departure => departure.tripId)))
+  );
+
+  return selected.map(departure => ({
+    feedKey: timetable.feedKey,
+    tripId: departure.tripId,
+    routeId: departure.routeId,
+    headsign: departure.headsign,
+    stopId: departure.stopId,
+    stopSequence: departure.stopSequence,
+    serviceDate: departure.serviceDate,
+    scheduledTime: departure.departureTime,
+    predictedTime: null,
+    delay: null,
+    status: 'scheduled',
+    vehicle: null,
+    tripStopSequences: (tripStopTimes.get(departure.tripId) ?? []).map(stopTime => stopTime.stopSequence),
+  }));
+}
+
+/**
+ * Overlays realtime data on scheduled departures
+ * Predictions come from trip updates; vehicles on the trip give how many stops
+ * away the bus is. Departures whose vehicle has already passed the stop, or
+ * whose predicted time has gone, are dropped.
+ * @param departures - Scheduled departures
+ * @param tripUpdates - Current trip updates
+ * @param vehicles - Current vehicle positions
+ * @param now - POSIX seconds (defaults to now)
+ * @returns Departures in expected time order
+ */
+export function applyRealtimeToDepartures(
+  departures: Departure[],
+  tripUpdates: TripUpdatesIndex,
+  vehicles: Vehicle[],
+  now: number = Date.now() / 1000
+): Departure[] {
+  const vehiclesByTrip = new Map<string, Vehicle>();
+  vehicles.forEach(vehicle => {
+    if (vehicle.tripId) {
+      vehiclesByTrip.set(vehicle.tripId, vehicle);
+    }
+  });
+
+  const updated: Departure[] = [];
+  departures.forEach(departure => {
+    const result: Departure = { ...departure, predictedTime: null, delay: null, status: 'scheduled', vehicle: null };
+
+    // Updates carrying a start date only apply to that day's run of the trip
+    const tripUpdate = tripUpdates.byTrip.get(departure.tripId);
+    const appliesToRun = !tripUpdate?.startDate || tripUpdate.startDate === departure.serviceDate;
+
+    if (appliesToRun && tripUpdates.cancelledTripIds.has(departure.tripId)) {
+      result.status = 'cancelled';
+    } else if (tripUpdate && appliesToRun) {
+      const prediction = getStopTimePrediction(tripUpdate, departure.stopSequence, departure.stopId);
+      const event = prediction?.departure || prediction?.arrival;
+      if (prediction?.scheduleRelationship === 'SKIPPED') {
+        result.status = 'skipped';
+      } else if (event && (event.time !== null || event.delay !== null)) {
+        result.predictedTime = event.time ?? departure.scheduledTime + event.delay!;
+        result.delay = event.delay ?? result.predictedTime - departure.scheduledTime;
+        result.status = 'predicted';
+      }
+    }
+
+    const vehicle = vehiclesByTrip.get(departure.tripId);
+    if (vehicle && vehicle.currentStopSequence !== null) {
+      const vehicleIndex = departure.tripStopSequences.indexOf(vehicle.currentStopSequence);
+      const stopIndex = departure.tripStopSequences.indexOf(departure.stopSequence);
+      if (vehicleIndex !== -1 && stopIndex !== -1) {
+        // current_stop_sequence is the stop ahead, unless the status is STOPPED_AT
+        if (vehicleIndex > stopIndex) {
+          return; // Already departed
+        }
+        result.vehicle = {
+          id: vehicle.id,
+          label: vehicle.label,
+          stopsAway: stopIndex - vehicleIndex,
+          atStop: vehicleIndex === stopIndex && vehicle.currentStatus === 'STOPPED_AT',
+        };
+      }
+    }
+
+    if (getExpectedTime(result) < now - DEPARTED_GRACE_SECONDS && !result.vehicle) {
+      return;
+    }
+    updated.push(result);
+  });
+
+  return updated.sort((a, b) => getExpectedTime(a) - getExpectedTime(b));
+}
+
+/**
+ * Gets the best known departure time
+ * @param departure - Departure
+ * @returns Predicted time if available, otherwise scheduled time (POSIX seconds)
+ */
+export function getExpectedTime(departure: Departure): number {
+  return departure.predictedTime ?? departure.scheduledTime;
+}
@@ -0,0 +1,325 @@
+/**
+ * Timetable queries
+ * Answers schedule questions from a cached feed's stop_times, trips and routes
+ * stores: departures from a stop, a route's trips on a date, the stops of a
+ * trip, the routes serving a stop and the next trip between two stops.
+ * Times are POSIX seconds; which trips run on a day follows the feed's
+ * service calendar.
+ */
+
+import {
+  getFeedKey,
+  getFeedMetadata,
+  getFeedRoutes,
+  getStops,
+  getStopTimesForStop,
+  getStopTimesForTrip,
+  getStopTimesForTrips,
+  getTrips,
+  getTripsForRoute,
+} from './gtfsDatabase';
+import type { StoredRoute, StoredStopTime, StoredTrip } from './gtfsDatabase';
+import { fetchServiceCalendar } from './gtfsStatic';
+import { isTripServiceActive } from './serviceCalendar';
+import type { ServiceCalendar } from './serviceCalendar';
+import { getServiceDate, getServiceDayStart } from './gtfsTime';
+
+export interface TimetableDeparture {
+  tripId: string;
+  routeId: string | null;
+  headsign: string | null; // trip_headsign, or the name of the trip's last stop
+  stopId: string;
+  stopSequence: number;
+  serviceDate: string; // "YYYYMMDD" the trip runs on
+  arrivalTime: number | null;
+  departureTime: number;
+}
+
+export interface TimetableTrip {
+  tripId: string;
+  routeId: string | null;
+  serviceId: string | null;
+  directionId: number | null;
+  headsign: string | null;
+  shapeId: string | null;
+  serviceDate: string;
+  startTime: number | null; // Departure from the first stop
+  endTime: number | null; // Arrival at the last stop
+}
+
+export interface TimetableStopTime {
+  stopId: string;
+  stopName: string | null;
+  stopSequence: number;
+  arrivalTime: number | null;
+  departureTime: number | null;
+}
+
+export interface TimetableJourney {
+  tripId: string;
+  routeId: string | null;
+  headsign: string | null;
+  serviceDate: string;
+  fromStopId: string;
+  toStopId: string;
+  departureTime: number;
+  arrivalTime: number;
+}
+
+export interface Timetable {
+  feedKey: string;
+  /**
+   * Lists departures from one or more stops in a time window, earliest first
+   * Trips that end at the stop are left out
+   */
+  getDepartures(stopIds: string | string[], from: number, to: number): Promise<TimetableDeparture[]>;
+  /**
+   * Lists the trips of a route running on a service date, by start time
+   */
+  getTripsForRoute(routeId: string, serviceDate: string): Promise<TimetableTrip[]>;
+  /**
+   * Lists the stops of a trip in stop_sequence order
+   * Times are given for the trip's run on the service date
+   */
+  getTripStops(tripId: string, serviceDate: string): Promise<TimetableStopTime[]>;
+  /**
+   * Lists the routes with at least one trip calling at any of the stops
+   */
+  getRoutesServingStop(stopIds: string | string[]): Promise<StoredRoute[]>;
+  /**
+   * Finds the trip leaving one stop soonest after a time that later calls at another
+   * @returns The journey, or null if none leaves within the search window
+   */
+  findNextTrip(fromStopId: string, toStopId: string, after: number, withinSeconds?: number): Promise<TimetableJourney | null>;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// GTFS times may run past 24:00:00, so trips from the previous service day can still be running
+const MAX_TRIP_OVERRUN_SECONDS = DAY_SECONDS;
+
+const DEFAULT_JOURNEY_WINDOW_SECONDS = DAY_SECONDS;
+
+/**
+ * Creates timetable queries over a cached feed
+ * @param feedKey - Feed to query, see getFeedKey
+ * @param calendar - Service calendar of the feed; without one every trip runs every day
+ * @returns Timetable queries
+ */
+export function createTimetable(feedKey: string, calendar: ServiceCalendar | null): Timetable {
+  const runsOn = (trip: StoredTrip, serviceDate: string): boolean =>
+    isTripServiceActive(calendar, trip.serviceId, serviceDate);
+
+  return {
+    feedKey,
+
+    async getDepartures(stopIds, from, to) {
+      const ids = typeof stopIds === 'string' ? [stopIds] : stopIds;
+      const stopTimes = (await Promise.all(ids.map(stopId => getStopTimesForStop(feedKey, stopId)))).flat();
+      const trips = await getTrips(feedKey, unique(stopTimes.map(stopTime => stopTime.tripId)));
+      const serviceDays = getServiceDaysInWindow(from, to);
+
+      const matches: Array<{ stopTime: StoredStopTime; trip: StoredTrip; serviceDate: string; departureTime: number; dayStart: number }> = [];
+      stopTimes.forEach(stopTime => {
+        const time = stopTime.departureTime ?? stopTime.arrivalTime;
+        const trip = trips.get(stopTime.tripId);
+        if (time === null || !trip) {
+          return;
+        }
+        serviceDays.forEach(({ serviceDate, start }) => {
+          const departureTime = start + time;
+          if (departureTime >= from && departureTime <= to && runsOn(trip, serviceDate)) {
+            matches.push({ stopTime, trip, serviceDate, departureTime, dayStart: start });
+          }
+        });
+      });
+
+      // Each trip's last stop, to drop arrivals at the end of the line and name the destination
+      const tripStopTimes = await getStopTimesForTrips(feedKey, unique(matches.map(match => match.trip.tripId)));
+      const lastStopIds = new Map<string, string>();
+      tripStopTimes.forEach((times, tripId) => {
+        if (times.length > 0) {
+          lastStopIds.set(tripId, times[times.length - 1].stopId);
+        }
+      });
+      const lastStops = await getStops(feedKey, unique(Array.from(lastStopIds.values())));
+
+      return matches
+        .filter(({ stopTime }) => {
+          const times = tripStopTimes.get(stopTime.tripId) ?? [];
+          return times.length > 0 && times[times.length - 1].stopSequence !== stopTime.stopSequence;
+        })
+        .map(({ stopTime, trip, serviceDate, departureTime, dayStart }) => ({
+          tripId: trip.tripId,
+          routeId: trip.routeId,
+          headsign: trip.headsign || lastStops.get(lastStopIds.get(trip.tripId)!)?.name || null,
+          stopId: stopTime.stopId,
+          stopSequence: stopTime.stopSequence,
+          serviceDate,
+          arrivalTime: stopTime.arrivalTime !== null ? dayStart + stopTime.arrivalTime : null,
+          departureTime,
+        }))
+        .sort((a, b) => a.departureTime - b.departureTime);
+    },
+
+    async getTripsForRoute(routeId, serviceDate) {
+      const dayStart = getServiceDayStart(serviceDate);
+      if (dayStart === null) {
+        return [];
+      }
+
+      const trips = (await getTripsForRoute(feedKey, routeId)).filter(trip => runsOn(trip, serviceDate));
+      const tripStopTimes = await getStopTimesForTrips(feedKey, trips.map(trip => trip.tripId));
+
+      return trips
+        .map(trip => {
+          const times = tripStopTimes.get(trip.tripId) ?? [];
+          const first = times[0];
+          const last = times[times.length - 1];
+          const start = first ? first.departureTime ?? first.arrivalTime : null;
+          const end = last ? last.arrivalTime ?? last.departureTime : null;
+          return {
+            tripId: trip.tripId,
+            routeId: trip.routeId,
+            serviceId: trip.serviceId,
+            directionId: trip.directionId,
+            headsign: trip.headsign,
+            shapeId: trip.shapeId,
+            serviceDate,
+            startTime: start !== null ? dayStart + start : null,
+            endTime: end !== null ? dayStart + end : null,
+          };
+        })
+        .sort((a, b) => (a.startTime ?? Infinity) - (b.startTime ?? Infinity));
+    },
+
+    async getTripStops(tripId, serviceDate) {
+      const dayStart = getServiceDayStart(serviceDate);
+      if (dayStart === null) {
+        return [];
+      }
+
+      const stopTimes = await getStopTimesForTrip(feedKey, tripId);
+      const stops = await getStops(feedKey, unique(stopTimes.map(stopTime => stopTime.stopId)));
+
+      return stopTimes.map(stopTime => ({
+        stopId: stopTime.stopId,
+        stopName: stops.get(stopTime.stopId)?.name ?? null,
+        stopSequence: stopTime.stopSequence,
+        arrivalTime: stopTime.arrivalTime !== null ? dayStart + stopTime.arrivalTime : null,
+        departureTime: stopTime.departureTime !== null ? dayStart + stopTime.departureTime : null,
+      }));
+    },
+
+    async getRoutesServingStop(stopIds) {
+      const ids = typeof stopIds === 'string' ? [stopIds] : stopIds;
+      const stopTimes = (await Promise.all(ids.map(stopId => getStopTimesForStop(feedKey, stopId)))).flat();
+      const trips = await getTrips(feedKey, unique(stopTimes.map(stopTime => stopTime.tripId)));
+      const routeIds = new Set(Array.from(trips.values(), trip => trip.routeId));
+
+      const routes = await getFeedRoutes(feedKey);
+      return routes.filter(route => routeIds.has(route.routeId));
+    },
+
+    async findNextTrip(fromStopId, toStopId, after, withinSeconds = DEFAULT_JOURNEY_WINDOW_SECONDS) {
+      const [fromTimes, toTimes] = await Promise.all([
+        getStopTimesForStop(feedKey, fromStopId),
+        getStopTimesForStop(feedKey, toStopId),
+      ]);
+
+      const toTimesByTrip = new Map<string, StoredStopTime[]>();
+      toTimes.forEach(stopTime => {
+        toTimesByTrip.set(stopTime.tripId, [...(toTimesByTrip.get(stopTime.tripId) ?? []), stopTime]);
+      });
+
+      // Pairs of calls on the same trip where the destination comes later
+      const legs: Array<{ from: StoredStopTime; to: StoredStopTime }> = [];
+      fromTimes.forEach(from => {
+        const to = (toTimesByTrip.get(from.tripId) ?? [])
+          .filter(candidate => candidate.stopSequence > from.stopSequence)
+          .sort((a, b) => a.stopSequence - b.stopSequence)[0];
+        if (to) {
+          legs.push({ from, to });
+        }
+      });
+
+      const trips = await getTrips(feedKey, unique(legs.map(leg => leg.from.tripId)));
+      const serviceDays = getServiceDaysInWindow(after, after + withinSeconds);
+
+      let best: TimetableJourney | null = null;
+      legs.forEach(({ from, to }) => {
+        const trip = trips.get(from.tripId);
+        const leaving = from.departureTime ?? from.arrivalTime;
+        const arriving = to.arrivalTime ?? to.departureTime;
+        if (!trip || leaving === null || arriving === null) {
+          return;
+        }
+        serviceDays.forEach(({ serviceDate, start }) => {
+          const departureTime = start + leaving;
+          const arrivalTime = start + arriving;
+          if (departureTime < after || departureTime > after + withinSeconds || !runsOn(trip, serviceDate)) {
+            return;
+          }
+          if (best && (departureTime > best.departureTime ||
+            (departureTime === best.departureTime && arrivalTime >= best.arrivalTime))) {
+            return;
+          }
+          best = {
+            tripId: trip.tripId,
+            routeId: trip.routeId,
+            headsign: trip.headsign,
+            serviceDate,
+            fromStopId: from.stopId,
+            toStopId: to.stopId,
+            departureTime,
+            arrivalTime,
+          };
+        });
+      });
+
+      return best;
+    },
+  };
+}
+
+/**
+ * Loads timetable queries for an agency's cached feed
+ * @param agency - Agency name (e.g., 'prasarana', 'ktmb')
+ * @param category - Optional category for Prasarana
+ * @returns Timetable queries, or null if the feed could not be loaded
+ */
+export async function fetchTimetable(agency: string, category?: string | null): Promise<Timetable | null> {
+  // Loading the calendar also downloads and imports the feed if it is not cached yet
+  const calendar = await fetchServiceCalendar(agency, category);
+  const feedKey = getFeedKey(agency, category);
+  if (!(await getFeedMetadata(feedKey))) {
+    console.warn(`No cached GTFS feed for ${feedKey}`);
+    return null;
+  }
+  return createTimetable(feedKey, calendar);
+}
+
+/**
+ * Lists the service days whose trips may run during a time window
+ * @param from - Start of the window (POSIX seconds)
+ * @param to - End of the window (POSIX seconds)
+ * @returns Service dates with the POSIX time each day starts
+ */
+function getServiceDaysInWindow(from: number, to: number): Array<{ serviceDate: string; start: number }> {
+  const days: Array<{ serviceDate: string; start: number }> = [];
+  for (let time = from - MAX_TRIP_OVERRUN_SECONDS; time <= to + DAY_SECONDS; time += DAY_SECONDS) {
+    const serviceDate = getServiceDate(new Date(time * 1000));
+    const start = getServiceDayStart(serviceDate);
+    if (start !== null && start <= to && !days.some(day => day.serviceDate === serviceDate)) {
+      days.push({ serviceDate, start });
+    }
+  }
+  return days;
+}
+
+/**
+ * Removes duplicates, keeping first occurrences
+ */
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
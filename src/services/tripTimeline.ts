@@ -0,0 +1,249 @@
+/**
+ * Trip timelines
+ * Lays out every stop of a trip in stop_sequence order with scheduled and
+ * estimated times, and works out which stops a vehicle has passed and how far
+ * it is between the last stop and the next one.
+ */
+
+import { getStopTimesForTrip } from './gtfsDatabase';
+import { getStopTimePrediction } from './gtfsRealtime';
+import type { TripUpdate, VehicleStopStatus } from './gtfsRealtime';
+import { getServiceDate, getServiceDayStart } from './gtfsTime';
+
+export interface TripScheduleStop {
+  stopId: string;
+  stopSequence: number;
+  arrivalTime: number | null; // Seconds since the start of the service day
+  departureTime: number | null;
+}
+
+export type TimelineStopState = 'passed' | 'current' | 'upcoming';
+
+export interface TimelineStop {
+  stopId: string;
+  stopSequence: number;
+  scheduledTime: number | null; // POSIX seconds of the scheduled arrival (departure at the first stop)
+  estimatedTime: number | null; // From trip updates, or the vehicle's current delay
+  delay: number | null; // Seconds late (negative = early)
+  skipped: boolean;
+  state: TimelineStopState;
+}
+
+export interface TripTimeline {
+  serviceDate: string; // "YYYYMMDD" the trip runs on
+  stops: TimelineStop[];
+  previousStopIndex: number | null; // Last stop passed or stopped at
+  nextStopIndex: number | null; // Next stop ahead
+  segmentFraction: number | null; // 0 at the previous stop, 1 at the next, when known
+  delay: number | null; // Current delay of the trip, when known
+}
+
+// Where the vehicle running the trip is, from its own report
+export interface TimelineVehicle {
+  currentStopSequence: number | null;
+  currentStatus: VehicleStopStatus | null;
+  timestamp: number; // POSIX seconds of the position fix
+}
+
+// Where the vehicle running the trip is, from map matching (indexes into the schedule)
+export interface TimelinePosition {
+  previousStopIndex: number | null;
+  nextStopIndex: number | null;
+  segmentFraction: number | null;
+}
+
+export interface TimelineOptions {
+  now?: number; // POSIX seconds (defaults to now)
+  vehicle?: TimelineVehicle | null;
+  position?: TimelinePosition | null;
+  tripUpdate?: TripUpdate | null;
+  serviceDate?: string; // Defaults to getTripServiceDate
+}
+
+// A trip counts as running on a service day from this long before its first stop until this long after its last
+const RUNNING_MARGIN_SECONDS = 60 * 60;
+
+/**
+ * Fetches the stop times of a trip
+ * @param feedKey - Feed the trip belongs to
+ * @param tripId - trip_id
+ * @returns Stops in stop_sequence order (empty if the trip is unknown)
+ */
+export async function fetchTripSchedule(feedKey: string, tripId: string): Promise<TripScheduleStop[]> {
+  const stopTimes = await getStopTimesForTrip(feedKey, tripId);
+  return stopTimes.map(stopTime => ({
+    stopId: stopTime.stopId,
+    stopSequence: stopTime.stopSequence,
+    arrivalTime: stopTime.arrivalTime,
+    departureTime: stopTime.departureTime,
+  }));
+}
+
+/**
+ * Works out which service day a running trip belongs to
+ * Trips running past midnight belong to the previous service day
+ * @param schedule - Trip stops
+ * @param now - POSIX seconds
+ * @param startDate - start_date from the realtime feed, which wins when present
+ * @returns Service date as "YYYYMMDD"
+ */
+export function getTripServiceDate(schedule: TripScheduleStop[], now: number, startDate?: string | null): string {
+  if (startDate) {
+    return startDate;
+  }
+
+  const today = getServiceDate(new Date(now * 1000));
+
+  const first = getScheduledTime(schedule[0], true);
+  const last = getScheduledTime(schedule[schedule.length - 1], false);
+  if (first === null || last === null) {
+    return today;
+  }
+
+  const yesterday = getServiceDate(new Date((now - 24 * 60 * 60) * 1000));
+  const yesterdayStart = getServiceDayStart(yesterday);
+  const runsYesterday = yesterdayStart !== null &&
+    now >= yesterdayStart + first - RUNNING_MARGIN_SECONDS &&
+    now <= yesterdayStart + last + RUNNING_MARGIN_SECONDS;
+  return runsYesterday ? yesterday : today;
+}
+
+/**
+ * Gets the time shown for a stop
+ * @param stop - Trip stop
+ * @param isFirst - Whether the stop starts the trip, where the departure matters
+ */
+function getScheduledTime(stop: TripScheduleStop | undefined, isFirst: boolean): number | null {
+  if (!stop) {
+    return null;
+  }
+  return isFirst ? stop.departureTime ?? stop.arrivalTime : stop.arrivalTime ?? stop.departureTime;
+}
+
+/**
+ * Builds the timeline of a trip
+ * The vehicle's reported stop takes precedence over map matching; without
+ * either, stops count as passed once their estimated time has gone. Without
+ * trip updates, upcoming times are estimated from how late the vehicle is at
+ * its current position.
+ * @param schedule - Trip stops in stop_sequence order
+ * @param options - Time, vehicle report, map-matched position and trip update
+ * @returns The trip timeline
+ */
+export function buildTripTimeline(schedule: TripScheduleStop[], options: TimelineOptions = {}): TripTimeline {
+  const now = options.now ?? Date.now() / 1000;
+  const tripUpdate = options.tripUpdate ?? null;
+  const vehicle = options.vehicle ?? null;
+  const serviceDate = options.serviceDate ?? getTripServiceDate(schedule, now, tripUpdate?.startDate);
+  const dayStart = getServiceDayStart(serviceDate) ?? 0;
+
+  const scheduledTimes = schedule.map((stop, index) => {
+    const time = getScheduledTime(stop, index === 0);
+    return time === null ? null : dayStart + time;
+  });
+
+  // Where the vehicle is along the trip
+  let previousStopIndex: number | null = null;
+  let nextStopIndex: number | null = null;
+  let segmentFraction: number | null = null;
+  let stoppedAtIndex: number | null = null;
+  let positionKnown = false;
+
+  const reportedIndex = vehicle?.currentStopSequence != null
+    ? schedule.findIndex(stop => stop.stopSequence === vehicle.currentStopSequence)
+    : -1;
+  if (reportedIndex !== -1) {
+    positionKnown = true;
+    if (vehicle!.currentStatus === 'STOPPED_AT') {
+      stoppedAtIndex = reportedIndex;
+      previousStopIndex = reportedIndex;
+      nextStopIndex = reportedIndex + 1 < schedule.length ? reportedIndex + 1 : null;
+      segmentFraction = 0;
+    } else {
+      // IN_TRANSIT_TO and INCOMING_AT (the default) name the stop ahead
+      previousStopIndex = reportedIndex > 0 ? reportedIndex - 1 : null;
+      nextStopIndex = reportedIndex;
+      if (options.position?.nextStopIndex === reportedIndex) {
+        segmentFraction = options.position.segmentFraction;
+      }
+    }
+  } else if (options.position) {
+    positionKnown = true;
+    previousStopIndex = options.position.previousStopIndex;
+    nextStopIndex = options.position.nextStopIndex;
+    segmentFraction = options.position.segmentFraction;
+  }
+
+  // How late the vehicle is at its current position, for trips without predictions
+  let positionDelay: number | null = null;
+  const fixTime = vehicle?.timestamp ?? now;
+  if (stoppedAtIndex !== null) {
+    const departure = schedule[stoppedAtIndex].departureTime ?? schedule[stoppedAtIndex].arrivalTime;
+    if (departure !== null) {
+      positionDelay = Math.max(0, fixTime - (dayStart + departure));
+    }
+  } else if (previousStopIndex !== null && nextStopIndex !== null && segmentFraction !== null) {
+    const leaving = schedule[previousStopIndex].departureTime ?? schedule[previousStopIndex].arrivalTime;
+    const arriving = scheduledTimes[nextStopIndex];
+    if (leaving !== null && arriving !== null) {
+      const scheduledHere = dayStart + leaving + segmentFraction * (arriving - (dayStart + leaving));
+      positionDelay = fixTime - scheduledHere;
+    }
+  }
+
+  const stops: TimelineStop[] = schedule.map((stop, index) => {
+    const scheduledTime = scheduledTimes[index];
+    let estimatedTime: number | null = null;
+    let delay: number | null = null;
+    let skipped = false;
+
+    const prediction = tripUpdate ? getStopTimePrediction(tripUpdate, stop.stopSequence, stop.stopId) : null;
+    const event = prediction?.arrival || prediction?.departure;
+    if (prediction?.scheduleRelationship === 'SKIPPED') {
+      skipped = true;
+    } else if (event && (event.time !== null || (event.delay !== null && scheduledTime !== null))) {
+      estimatedTime = event.time ?? scheduledTime! + event.delay!;
+      delay = event.delay ?? (scheduledTime !== null ? estimatedTime - scheduledTime : null);
+    }
+
+    let state: TimelineStopState;
+    if (positionKnown) {
+      if (index === stoppedAtIndex) {
+        state = 'current';
+      } else if (previousStopIndex !== null && index <= previousStopIndex) {
+        state = 'passed';
+      } else {
+        state = 'upcoming';
+      }
+    } else {
+      const time = estimatedTime ?? scheduledTime;
+      state = time !== null && time < now ? 'passed' : 'upcoming';
+    }
+
+    // Propagate the current delay to stops the trip update says nothing about
+    if (state === 'upcoming' && estimatedTime === null && !skipped && positionDelay !== null && scheduledTime !== null) {
+      delay = positionDelay;
+      estimatedTime = scheduledTime + positionDelay;
+    }
+
+    return {
+      stopId: stop.stopId,
+      stopSequence: stop.stopSequence,
+      scheduledTime,
+      estimatedTime,
+      delay,
+      skipped,
+      state,
+    };
+  });
+
+  const nextStop = nextStopIndex !== null ? stops[nextStopIndex] : null;
+  return {
+    serviceDate,
+    stops,
+    previousStopIndex,
+    nextStopIndex,
+    segmentFraction,
+    delay: nextStop?.delay ?? positionDelay,
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Vehicle animation between realtime polls
+ * Each vehicle gets a track that eases from where it is drawn to its newest
+ * GPS fix along the trip's route path, then extrapolates briefly by speed
+ * until the next fix arrives
+ */
+
+import { measurePath, projectOntoPath, pointAlongPath, destinationPoint, haversineDistance } from './geometry';
+import type { LngLat, PathMeasure } from './geometry';
+
+export interface VehicleFix {
+  longitude: number;
+  latitude: number;
+  timestamp: number; // POSIX seconds
+  bearing: number;
+  speed: number; // m/s
+}
+
+export interface AnimatedPosition {
+  longitude: number;
+  latitude: number;
+  bearing: number;
+}
+
+interface TrackState extends AnimatedPosition {
+  distance: number | null; // Distance along the route path, null when off-path
+}
+
+export interface VehicleTrack {
+  fix: VehicleFix;
+  measure: PathMeasure | null;
+  start: TrackState; // Where the vehicle was drawn when the fix arrived
+  target: TrackState; // The fix itself, snapped onto the route path when close enough
+  speed: number; // m/s used for extrapolation
+  transitionStart: number; // Animation clock time (ms) when the transition began
+}
+
+// Duration of the ease from the drawn position to a new fix
+const TRANSITION_MS = 2500;
+
+// Stop extrapolating after this long without a new fix
+const MAX_EXTRAPOLATION_SECONDS = 15;
+
+// Fixes further than this from the route path are animated in a straight line
+const MAX_SNAP_DISTANCE = 75;
+
+// Jumps longer than this are treated as teleports (e.g. a vehicle reassigned to a new trip)
+const MAX_TRANSITION_DISTANCE = 2000;
+
+// Guard against GPS glitches when estimating speed from history (~110 km/h)
+const MAX_SPEED = 30;
+
+/**
+ * Cubic ease-in-out
+ */
+function easeInOut(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+/**
+ * Interpolates between two bearings along the shorter arc
+ */
+function lerpBearing(from: number, to: number, t: number): number {
+  const delta = ((to - from + 540) % 360) - 180;
+  return (from + delta * t + 360) % 360;
+}
+
+/**
+ * Computes where a track should be drawn at a given clock time
+ */
+function getTrackState(track: VehicleTrack, now: number): TrackState {
+  const { measure, start, target, fix } = track;
+  const elapsed = now - track.transitionStart;
+
+  if (elapsed < TRANSITION_MS) {
+    const t = easeInOut(Math.max(0, elapsed / TRANSITION_MS));
+
+    if (measure && start.distance !== null && target.distance !== null) {
+      const distance = start.distance + (target.distance - start.distance) * t;
+      const { point, bearing } = pointAlongPath(measure, distance);
+      return { longitude: point[0], latitude: point[1], bearing, distance };
+    }
+
+    return {
+      longitude: start.longitude + (target.longitude - start.longitude) * t,
+      latitude: start.latitude + (target.latitude - start.latitude) * t,
+      bearing: lerpBearing(start.bearing, target.bearing, t),
+      distance: null,
+    };
+  }
+
+  const extrapolationSeconds = Math.min(MAX_EXTRAPOLATION_SECONDS, (elapsed - TRANSITION_MS) / 1000);
+  const travelled = track.speed * extrapolationSeconds;
+
+  if (travelled <= 0) {
+    return target;
+  }
+
+  if (measure && target.distance !== null) {
+    const distance = Math.min(measure.length, target.distance + travelled);
+    const { point, bearing } = pointAlongPath(measure, distance);
+    return { longitude: point[0], latitude: point[1], bearing, distance };
+  }
+
+  const point = destinationPoint([fix.longitude, fix.latitude], fix.bearing, travelled);
+  return { longitude: point[0], latitude: point[1], bearing: fix.bearing, distance: null };
+}
+
+/**
+ * Estimates speed from the last two fixes when the feed does not report one
+ */
+function estimateSpeed(history: VehicleFix[], measure: PathMeasure | null): number {
+  if (history.length < 2) {
+    return 0;
+  }
+
+  const previous = history[history.length - 2];
+  const latest = history[history.length - 1];
+  const elapsed = latest.timestamp - previous.timestamp;
+  if (elapsed <= 0) {
+    return 0;
+  }
+
+  let distance = haversineDistance(previous.latitude, previous.longitude, latest.latitude, latest.longitude);
+  if (measure) {
+    const from = projectOntoPath(measure, [previous.longitude, previous.latitude]);
+    const to = projectOntoPath(measure, [latest.longitude, latest.latitude]);
+    if (from && to && from.offset <= MAX_SNAP_DISTANCE && to.offset <= MAX_SNAP_DISTANCE) {
+      distance = Math.max(0, to.distance - from.distance);
+    }
+  }
+
+  return Math.min(MAX_SPEED, distance / elapsed);
+}
+
+/**
+ * Updates a vehicle's track with its latest history
+ * Returns the previous track unchanged when no new fix has arrived
+ * @param previous - Track from the previous poll, if any
+ * @param history - Stored positions for the vehicle, oldest first
+ * @param path - Route path of the vehicle's trip, if known
+ * @param stopped - True when the vehicle reports it is stopped at a stop
+ * @param now - Animation clock time in ms
+ * @returns Updated track
+ */
+export function updateVehicleTrack(
+  previous: VehicleTrack | undefined,
+  history: VehicleFix[],
+  path: LngLat[] | null,
+  stopped: boolean,
+  now: number
+): VehicleTrack {
+  const fix = history[history.length - 1];
+  const measure = path && path.length >= 2 ? measurePath(path) : null;
+
+  if (previous && previous.fix.timestamp === fix.timestamp && previous.measure === measure) {
+    return previous;
+  }
+
+  const target: TrackState = {
+    longitude: fix.longitude,
+    latitude: fix.latitude,
+    bearing: fix.bearing,
+    distance: null,
+  };
+
+  if (measure) {
+    const projection = projectOntoPath(measure, [fix.longitude, fix.latitude]);
+    if (projection && projection.offset <= MAX_SNAP_DISTANCE) {
+      const { bearing } = pointAlongPath(measure, projection.distance);
+      target.longitude = projection.point[0];
+      target.latitude = projection.point[1];
+      target.bearing = bearing;
+      target.distance = projection.distance;
+    }
+  }
+
+  const speed = stopped ? 0 : (fix.speed > 0 ? Math.min(MAX_SPEED, fix.speed) : estimateSpeed(history, measure));
+
+  // First sighting or a long jump: place the vehicle directly on its fix
+  let start: TrackState = target;
+  let transitionStart = now - TRANSITION_MS;
+
+  if (previous) {
+    const drawn = getTrackState(previous, now);
+    const jump = haversineDistance(drawn.latitude, drawn.longitude, target.latitude, target.longitude);
+    if (jump <= MAX_TRANSITION_DISTANCE) {
+      start = {
+        ...drawn,
+        // Distances are only comparable along the same path
+        distance: previous.measure === measure ? drawn.distance : null,
+      };
+      transitionStart = now;
+    }
+  }
+
+  return { fix, measure, start, target, speed, transitionStart };
+}
+
+/**
+ * Gets the position and heading to draw a vehicle at
+ * @param track - Vehicle track
+ * @param now - Animation clock time in ms
+ * @returns Interpolated or extrapolated position
+ */
+export function getAnimatedPosition(track: VehicleTrack, now: number): AnimatedPosition {
+  const { longitude, latitude, bearing } = getTrackState(track, now);
+  return { longitude, latitude, bearing };
+}
+
+/**
+ * Checks whether a track still moves on screen at the given time
+ * Lets the render loop idle once every vehicle has settled
+ */
+export function isTrackAnimating(track: VehicleTrack, now: number): boolean {
+  const elapsed = now - track.transitionStart;
+  if (elapsed < TRANSITION_MS) {
+    return true;
+  }
+  return track.speed > 0 && elapsed < TRANSITION_MS + MAX_EXTRAPOLATION_SECONDS * 1000;
+}
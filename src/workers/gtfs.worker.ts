@@ -0,0 +1,47 @@
+/**
+ * GTFS worker entry point
+ * Keeps feed import (ZIP extraction, CSV parsing, IndexedDB writes), route
+ * compilation and protobuf decoding off the main thread so the map stays responsive.
+ */
+
+import { handleGTFSWorkerRequest } from './gtfsWorkerHandler';
+import type { GTFSWorkerEnvelope, GTFSWorkerMessage } from './gtfsWorkerProtocol';
+
+// Requests still running, so a cancel message can abort them
+const runningRequests = new Map<number, AbortController>();
+
+function post(message: GTFSWorkerMessage, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+self.addEventListener('message', async (event: MessageEvent<GTFSWorkerEnvelope>) => {
+  const envelope = event.data;
+  const { id } = envelope;
+
+  if (envelope.type === 'cancel') {
+    runningRequests.get(id)?.abort();
+    return;
+  }
+
+  const { request } = envelope;
+  const controller = new AbortController();
+  runningRequests.set(id, controller);
+
+  try {
+    const { result, transfer } = await handleGTFSWorkerRequest(
+      request,
+      (current, total, phase) => {
+        post({ id, type: 'progress', current, total, phase });
+      },
+      controller.signal
+    );
+    post({ id, type: 'result', result }, transfer);
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error(`GTFS worker failed on ${request.type}:`, error);
+    }
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    runningRequests.delete(id);
+  }
+});
@@ -0,0 +1,68 @@
+/**
+ * Runs GTFS worker requests
+ * Used by the worker entry point, and directly on the main thread where
+ * module workers are unavailable.
+ */
+
+import { importGTFSFeed, importGTFSFile } from '../services/gtfsImport';
+import { compileFeedRoutes, getPackedRoutesTransferables } from '../services/routeCompiler';
+import { decodeRealtimeFeed } from '../services/gtfsRealtimeDecoder';
+import { validateCachedFeed } from '../services/feedValidator';
+import type { LoadPhase } from '../services/loadPipeline';
+import type { GTFSWorkerRequest, GTFSWorkerResults, GTFSWorkerRequestType } from './gtfsWorkerProtocol';
+
+export interface GTFSWorkerResponse {
+  result: GTFSWorkerResults[GTFSWorkerRequestType];
+  transfer: Transferable[]; // Buffers in the result that can be moved instead of copied
+}
+
+/**
+ * Handles one worker request
+ * @param request - Request from the main thread
+ * @param onProgress - Called as long-running requests make progress, with the load phase where known
+ * @param signal - Optional signal that aborts feed imports and route compilation
+ * @returns The result plus the buffers it owns
+ */
+export async function handleGTFSWorkerRequest(
+  request: GTFSWorkerRequest,
+  onProgress: (current: number, total: number, phase?: LoadPhase) => void,
+  signal?: AbortSignal
+): Promise<GTFSWorkerResponse> {
+  switch (request.type) {
+    case 'import-feed':
+      return {
+        result: await importGTFSFeed(request.agency, request.category, request.previous, {
+          signal,
+          onProgress: (phase, current, total) => onProgress(current, total, phase),
+        }),
+        transfer: [],
+      };
+    case 'import-file':
+      return {
+        result: await importGTFSFile(request.agency, request.category, request.fileName, request.buffer),
+        transfer: [],
+      };
+    case 'compile-routes': {
+      const compiled = await compileFeedRoutes(
+        request.feedKey,
+        request.sessionCache,
+        (current, total) => onProgress(current, total, 'geometry'),
+        signal
+      );
+      return {
+        result: compiled,
+        transfer: getPackedRoutesTransferables(compiled.routes),
+      };
+    }
+    case 'validate-feed':
+      return {
+        result: await validateCachedFeed(request.feedKey),
+        transfer: [],
+      };
+    case 'decode-realtime':
+      return {
+        result: decodeRealtimeFeed(request.feedType, request.buffer),
+        transfer: [],
+      };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Message protocol between the main thread and the GTFS worker
+ * Every request carries an id; the worker answers with any number of progress
+ * messages followed by exactly one result or error message for that id.
+ * A request can be cancelled by id, after which its reply is ignored.
+ */
+
+import type { FeedMetadata } from '../services/gtfsDatabase';
+import type { FeedImportResult } from '../services/gtfsImport';
+import type { CompiledRoutes } from '../services/routeCompiler';
+import type { ValidationReport } from '../services/feedValidator';
+import type { RealtimeFeedType } from '../services/gtfsRealtime';
+import type { DecodedRealtimeFeed } from '../services/gtfsRealtimeDecoder';
+import type { LoadPhase } from '../services/loadPipeline';
+
+export type GTFSWorkerRequest =
+  | {
+      type: 'import-feed';
+      agency: string;
+      category: string | null;
+      previous: FeedMetadata | null; // Cached version, for a conditional download
+    }
+  | {
+      type: 'import-file';
+      agency: string;
+      category: string | null;
+      fileName: string;
+      buffer: ArrayBuffer; // Transferred, so unusable by the sender afterwards
+    }
+  | {
+      type: 'compile-routes';
+      feedKey: string;
+      sessionCache: string | null; // Serialized Directions paths, see routeCompiler
+    }
+  | {
+      type: 'validate-feed';
+      feedKey: string;
+    }
+  | {
+      type: 'decode-realtime';
+      feedType: RealtimeFeedType;
+      buffer: ArrayBuffer; // Transferred, so unusable by the sender afterwards
+    };
+
+export type GTFSWorkerRequestType = GTFSWorkerRequest['type'];
+
+// Result payload for each request type
+export interface GTFSWorkerResults {
+  'import-feed': FeedImportResult;
+  'import-file': FeedImportResult;
+  'compile-routes': CompiledRoutes;
+  'validate-feed': ValidationReport;
+  'decode-realtime': DecodedRealtimeFeed<RealtimeFeedType>;
+}
+
+export type GTFSWorkerEnvelope =
+  | { id: number; type: 'request'; request: GTFSWorkerRequest }
+  | { id: number; type: 'cancel' }; // Aborts the request with this id at its next checkpoint
+
+export type GTFSWorkerMessage =
+  | { id: number; type: 'progress'; current: number; total: number; phase?: LoadPhase }
+  | { id: number; type: 'result'; result: GTFSWorkerResults[GTFSWorkerRequestType] }
+  | { id: number; type: 'error'; message: string };
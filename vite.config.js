@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    // The GTFS worker lazy-loads JSZip and the Directions client, which needs ES module output
+    format: 'es',
+  },
   server: {
     proxy: {
       // Proxy Google Directions API requests to avoid CORS issues